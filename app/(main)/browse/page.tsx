@@ -14,6 +14,9 @@ type ArticleWithTopic = {
   publisherName: string | null;
   publishedAt: Date;
   topic: { name: string; slug: string } | null;
+  topics: { topic: { name: string; slug: string } }[]; // Every label, primary included
+  alsoCoveredBy: string[]; // Other outlets with the same story
+  story: { id: string; articleCount: number } | null;
 };
 
 // Group articles by date
@@ -76,12 +79,21 @@ export default function BrowsePage() {
   const [allArticles, setAllArticles] = useState<ArticleWithTopic[]>([]);
   const [cursor, setCursor] = useState<string | undefined>(undefined);
   const [hasMore, setHasMore] = useState(true);
+  const [language, setLanguage] = useState<string | undefined>(undefined);
 
+  const { data: languages } = api.article.languages.useQuery();
   const { data, isLoading, isFetching } = api.article.browse.useQuery(
-    { limit: 20, cursor },
+    { limit: 20, cursor, language, collapseClusters: true },
     { placeholderData: (prev) => prev }
   );
 
+  // Start over from the newest article when the filter changes
+  const selectLanguage = (next: string | undefined) => {
+    setLanguage(next);
+    setCursor(undefined);
+    setAllArticles([]);
+  };
+
   // Update articles when data changes
   useEffect(() => {
     if (data?.items) {
@@ -135,6 +147,23 @@ export default function BrowsePage() {
           <p className="text-muted-foreground mt-1">
             {data?.totalCount || 0} total articles
           </p>
+          {languages && languages.length > 1 && (
+            <div className="flex flex-wrap gap-2 mt-4">
+              {[undefined, ...languages.map((l) => l.language)].map((l) => (
+                <button
+                  key={l ?? "all"}
+                  onClick={() => selectLanguage(l)}
+                  className={`px-3 py-1 rounded-full text-sm ${
+                    language === l
+                      ? "bg-primary text-primary-foreground"
+                      : "bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                  }`}
+                >
+                  {l ? l.toUpperCase() : "All languages"}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Loading state for initial load */}
@@ -199,9 +228,23 @@ export default function BrowsePage() {
                             {article.publisherName}
                           </span>
                         )}
-                        {article.topic && (
-                          <span className="bg-primary/10 text-primary px-2 py-0.5 rounded">
-                            {article.topic.name}
+                        {article.topics.map(({ topic }) => (
+                          <span
+                            key={topic.slug}
+                            className="bg-primary/10 text-primary px-2 py-0.5 rounded"
+                          >
+                            {topic.name}
+                          </span>
+                        ))}
+                        {article.alsoCoveredBy.length > 0 && (
+                          <span
+                            className="px-2 py-0.5 rounded border border-border"
+                            title={article.alsoCoveredBy.join(", ")}
+                          >
+                            Also covered by {article.alsoCoveredBy.length}{" "}
+                            {article.alsoCoveredBy.length === 1
+                              ? "outlet"
+                              : "outlets"}
                           </span>
                         )}
                         <span>
@@ -216,6 +259,15 @@ export default function BrowsePage() {
                       </div>
                     </div>
                   </a>
+                  {article.story && (
+                    <Link
+                      href={`/story/${article.story.id}`}
+                      className="block px-4 pb-3 text-xs text-primary hover:underline"
+                    >
+                      Follow the story ({article.story.articleCount} articles)
+                      &rarr;
+                    </Link>
+                  )}
                 </article>
               ))}
             </div>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useState } from "react";
 import { api } from "@/utils/trpc/react";
 import Link from "next/link";
 
@@ -12,6 +12,7 @@ export default function DashboardPage() {
 
   const { data: topics } = api.topic.list.useQuery();
   const { data: stats } = api.fetcher.stats.useQuery();
+  const { data: reviewCounts } = api.review.counts.useQuery();
   const { data: latestDigest, isLoading: isLoadingDigest } =
     api.digest.latest.useQuery();
   const { data: recentArticles, isLoading: isLoadingArticles } =
@@ -20,26 +21,8 @@ export default function DashboardPage() {
   const fetchMutation = api.fetcher.fetch.useMutation();
   const digestMutation = api.digest.generate.useMutation();
 
-  // Check if digest is stale (> 24 hours old or doesn't exist)
-  const isDigestStale = () => {
-    if (!latestDigest) return true;
-    const digestDate = new Date(latestDigest.date);
-    const hoursSinceDigest =
-      (Date.now() - digestDate.getTime()) / (1000 * 60 * 60);
-    return hoursSinceDigest > 24;
-  };
-
-  // Auto-fetch if no recent digest
-  useEffect(() => {
-    if (isLoadingDigest) return;
-
-    if (isDigestStale() && !isRefreshing) {
-      handleRefresh();
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isLoadingDigest, latestDigest]);
-
   // Refresh: fetch articles + generate digest
+  // Both also run on a schedule (see /api/cron), this is for in between
   const handleRefresh = async () => {
     setIsRefreshing(true);
     setRefreshStatus("Fetching articles...");
@@ -50,10 +33,17 @@ export default function DashboardPage() {
         max: 50,
         useAI: true,
       });
+      // Not queued (no async flag), but narrows the result type
+      if (fetchResult.queued) return;
+
+      const deferredMsg =
+        fetchResult.deferred.length > 0
+          ? ` Quota used up for: ${fetchResult.deferred.join(", ")}.`
+          : "";
       const statusMsg =
         fetchResult.inserted > 0
-          ? `${fetchResult.inserted} new articles (${fetchResult.duplicates} duplicates skipped). Generating digest...`
-          : `No new articles (${fetchResult.fetched} fetched, all duplicates). Regenerating digest...`;
+          ? `${fetchResult.inserted} new articles (${fetchResult.duplicates} duplicates skipped).${deferredMsg} Generating digest...`
+          : `No new articles (${fetchResult.fetched} fetched).${deferredMsg} Regenerating digest...`;
       setRefreshStatus(statusMsg);
 
       // Step 2: Generate digest (force regenerate to get fresh content)
@@ -117,6 +107,60 @@ export default function DashboardPage() {
           </div>
         </div>
 
+        {/* Review Queue */}
+        {reviewCounts &&
+          reviewCounts.untagged + reviewCounts["low-confidence"] > 0 && (
+            <Link
+              href="/review"
+              className="flex justify-between items-center border border-border rounded-lg p-4 mb-8 -mt-4 text-sm hover:bg-secondary/30 transition-colors"
+            >
+              <span>
+                <span className="font-medium">{reviewCounts.untagged}</span>{" "}
+                untagged •{" "}
+                <span className="font-medium">
+                  {reviewCounts["low-confidence"]}
+                </span>{" "}
+                low-confidence articles to review
+              </span>
+              <span className="text-primary">Review queue &rarr;</span>
+            </Link>
+          )}
+
+        {/* Provider Quota */}
+        {stats?.quota && stats.quota.some((q) => q.enabled) && (
+          <div className="flex flex-wrap gap-2 mb-8 -mt-4 text-xs text-muted-foreground">
+            {stats.quota
+              .filter((q) => q.enabled)
+              .map((q) => (
+                <span
+                  key={q.source}
+                  className={`px-2 py-1 rounded bg-secondary ${
+                    q.remaining === 0 ? "text-destructive" : ""
+                  }`}
+                >
+                  {q.label}: {q.remaining}/{q.budget} requests left today
+                </span>
+              ))}
+            {stats.circuits
+              .filter((c) => c.state !== "closed")
+              .map((c) => (
+                <span
+                  key={c.upstream}
+                  className="px-2 py-1 rounded bg-secondary text-destructive"
+                  title={c.lastError ?? undefined}
+                >
+                  {c.upstream}: circuit {c.state}
+                </span>
+              ))}
+            <Link
+              href="/runs"
+              className="px-2 py-1 text-primary hover:underline"
+            >
+              Fetch history &rarr;
+            </Link>
+          </div>
+        )}
+
         {/* Latest Digest */}
         {isLoadingDigest ? (
           <div className="border border-border rounded-lg p-6 mb-8">
@@ -0,0 +1,216 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@/utils/trpc/react";
+import Link from "next/link";
+
+const PAGE_SIZE = 20;
+
+type Reason = "untagged" | "low-confidence";
+
+const FILTERS: { value: Reason | undefined; label: string }[] = [
+  { value: undefined, label: "All" },
+  { value: "untagged", label: "Untagged" },
+  { value: "low-confidence", label: "Low confidence" },
+];
+
+export default function ReviewPage() {
+  const [reason, setReason] = useState<Reason | undefined>(undefined);
+  const [offset, setOffset] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const utils = api.useUtils();
+
+  const { data: topics } = api.topic.list.useQuery();
+  const { data: counts } = api.review.counts.useQuery();
+  const { data, isLoading } = api.review.queue.useQuery({
+    reason,
+    limit: PAGE_SIZE,
+    offset,
+  });
+  const { data: suggestions } = api.review.suggestKeywords.useQuery();
+
+  const setTopicMutation = api.article.setTopic.useMutation({
+    onSuccess: async () => {
+      setError(null);
+      await utils.review.invalidate();
+    },
+    onError: (err) => {
+      setError(
+        err.data?.code === "UNAUTHORIZED"
+          ? "Sign in to assign topics."
+          : err.message
+      );
+    },
+  });
+
+  // Locks the article either way, so re-tagging won't put it back
+  const assign = (id: string, topicId: string | null) => {
+    setTopicMutation.mutate({ id, topicId, lock: true });
+  };
+
+  const total = data?.total ?? 0;
+  const hasPrevious = offset > 0;
+  const hasNext = offset + PAGE_SIZE < total;
+
+  return (
+    <main className="min-h-screen p-8">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/dashboard"
+            className="text-sm text-muted-foreground hover:text-foreground mb-2 inline-block"
+          >
+            &larr; Back to dashboard
+          </Link>
+          <h1 className="text-3xl font-bold">Review Queue</h1>
+          <p className="text-sm text-muted-foreground mt-2">
+            {counts?.untagged ?? 0} untagged •{" "}
+            {counts?.["low-confidence"] ?? 0} low confidence
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="flex gap-2 mb-6">
+          {FILTERS.map((filter) => (
+            <button
+              key={filter.label}
+              onClick={() => {
+                setReason(filter.value);
+                setOffset(0);
+              }}
+              className={`px-3 py-1 rounded-full text-sm ${
+                reason === filter.value
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-secondary text-secondary-foreground hover:bg-secondary/80"
+              }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-secondary rounded-lg">
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        )}
+
+        {/* Keyword Suggestions */}
+        {suggestions && suggestions.length > 0 && (
+          <div className="border border-border rounded-lg p-6 mb-8">
+            <h2 className="text-lg font-semibold mb-1">Suggested Keywords</h2>
+            <p className="text-xs text-muted-foreground mb-4">
+              Frequent in the queue, not covered by any rule
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {suggestions.map((s) => (
+                <span
+                  key={s.term}
+                  title={s.examples.join("\n")}
+                  className="px-2 py-1 rounded bg-secondary text-xs"
+                >
+                  {s.term} ({s.articles})
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading queue...</p>
+        ) : data?.items.length === 0 ? (
+          <div className="border border-border rounded-lg p-6 border-dashed">
+            <p className="text-muted-foreground text-center">
+              Nothing to review.
+            </p>
+          </div>
+        ) : (
+          <div className="border border-border rounded-lg divide-y divide-border">
+            {data?.items.map((article) => (
+              <div key={article.id} className="p-4">
+                <a
+                  href={article.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-sm hover:underline"
+                >
+                  {article.title}
+                </a>
+                <div className="flex gap-2 mt-1 text-xs text-muted-foreground">
+                  <span>{article.publisherName}</span>
+                  <span>•</span>
+                  <span>
+                    {new Date(article.publishedAt).toLocaleDateString("en-US")}
+                  </span>
+                  <span>•</span>
+                  <span>
+                    {article.topic
+                      ? `${article.topic.name} (${Math.round(
+                          (article.confidence ?? 0) * 100
+                        )}%)`
+                      : "Untagged"}
+                  </span>
+                </div>
+                {article.description && (
+                  <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+                    {article.description}
+                  </p>
+                )}
+
+                {/* One-click assignment */}
+                <div className="flex flex-wrap gap-1 mt-3">
+                  {topics?.map((topic) => (
+                    <button
+                      key={topic.id}
+                      onClick={() => assign(article.id, topic.id)}
+                      disabled={setTopicMutation.isPending}
+                      className={`px-2 py-0.5 rounded text-xs disabled:opacity-50 ${
+                        topic.id === article.topic?.id
+                          ? "bg-primary text-primary-foreground"
+                          : "bg-secondary hover:bg-secondary/80"
+                      }`}
+                    >
+                      {topic.name}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => assign(article.id, null)}
+                    disabled={setTopicMutation.isPending}
+                    className="px-2 py-0.5 rounded text-xs border border-border hover:bg-secondary/50 disabled:opacity-50"
+                  >
+                    None fits
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Pagination */}
+        {(hasPrevious || hasNext) && (
+          <div className="flex justify-between items-center mt-6 text-sm">
+            <button
+              onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+              disabled={!hasPrevious}
+              className="px-3 py-1 rounded-md bg-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              &larr; Newer
+            </button>
+            <span className="text-muted-foreground">
+              {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+            </span>
+            <button
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={!hasNext}
+              className="px-3 py-1 rounded-md bg-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Older &rarr;
+            </button>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
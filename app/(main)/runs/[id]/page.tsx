@@ -0,0 +1,160 @@
+"use client";
+
+import { use } from "react";
+import { api } from "@/utils/trpc/react";
+import Link from "next/link";
+
+const COUNT_LABELS = [
+  ["fetched", "Fetched"],
+  ["inserted", "New"],
+  ["duplicates", "Duplicates"],
+  ["extracted", "Full text"],
+  ["taggedByRule", "Tagged (rules)"],
+  ["taggedByAI", "Tagged (AI)"],
+  ["untagged", "Untagged"],
+] as const;
+
+export default function RunPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = use(params);
+
+  const {
+    data: run,
+    isLoading,
+    error,
+  } = api.fetcher.run.useQuery({ id }, { retry: false });
+
+  if (isLoading) {
+    return (
+      <main className="min-h-screen p-8">
+        <div className="max-w-4xl mx-auto">
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (!run) {
+    return (
+      <main className="min-h-screen p-8">
+        <div className="max-w-4xl mx-auto">
+          <h1 className="text-2xl font-bold mb-4">
+            {error?.data?.code === "UNAUTHORIZED" ||
+            error?.data?.code === "FORBIDDEN"
+              ? "Fetch runs are only available to admins"
+              : "Run not found"}
+          </h1>
+          <Link href="/runs" className="text-primary hover:underline">
+            Back to fetch history
+          </Link>
+        </div>
+      </main>
+    );
+  }
+
+  const sources = Object.entries(run.bySource);
+
+  return (
+    <main className="min-h-screen p-8">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/runs"
+            className="text-sm text-muted-foreground hover:text-foreground mb-2 inline-block"
+          >
+            &larr; Back to fetch history
+          </Link>
+          <h1 className="text-3xl font-bold">
+            {run.trigger.charAt(0).toUpperCase() + run.trigger.slice(1)} fetch
+          </h1>
+          <p className="text-sm text-muted-foreground mt-2">
+            Started {new Date(run.startedAt).toLocaleString("en-US")} •{" "}
+            {run.finishedAt
+              ? `finished ${new Date(run.finishedAt).toLocaleString("en-US")}`
+              : "not finished (still running or interrupted)"}
+          </p>
+          {run.providers.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Providers: {run.providers.join(", ")}
+            </p>
+          )}
+        </div>
+
+        {/* Totals */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+          {COUNT_LABELS.map(([field, label]) => (
+            <div key={field} className="border border-border rounded-lg p-4">
+              <p className="text-2xl font-bold">{run[field]}</p>
+              <p className="text-sm text-muted-foreground">{label}</p>
+            </div>
+          ))}
+        </div>
+
+        {/* Per Source */}
+        {sources.length > 0 && (
+          <div className="border border-border rounded-lg p-6 mb-8 overflow-x-auto">
+            <h2 className="text-lg font-semibold mb-4">By Source</h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="font-normal pb-2">Source</th>
+                  {COUNT_LABELS.map(([field, label]) => (
+                    <th key={field} className="font-normal pb-2 text-right">
+                      {label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sources.map(([source, counts]) => (
+                  <tr key={source} className="border-t border-border">
+                    <td className="py-2">{source}</td>
+                    {COUNT_LABELS.map(([field]) => (
+                      <td key={field} className="py-2 text-right">
+                        {counts[field]}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Deferred */}
+        {run.deferred.length > 0 && (
+          <div className="mb-6 p-4 bg-secondary rounded-lg">
+            <p className="text-sm">
+              Deferred (daily quota used up): {run.deferred.join(", ")}
+            </p>
+          </div>
+        )}
+
+        {/* Errors */}
+        <div className="border border-border rounded-lg p-6">
+          <h2 className="text-lg font-semibold mb-4">
+            Errors ({run.errors.length})
+          </h2>
+          {run.errors.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No errors.</p>
+          ) : (
+            <ul className="space-y-2">
+              {run.errors.map((error, index) => (
+                <li
+                  key={index}
+                  className="text-sm font-mono break-words border-b border-border pb-2"
+                >
+                  {error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@/utils/trpc/react";
+import Link from "next/link";
+
+const PAGE_SIZE = 20;
+
+// Format how long a run took, or show that it never finished
+function formatDuration(startedAt: Date, finishedAt: Date | null) {
+  if (!finishedAt) return "running";
+  const seconds = Math.round(
+    (new Date(finishedAt).getTime() - new Date(startedAt).getTime()) / 1000
+  );
+  return seconds < 60
+    ? `${seconds}s`
+    : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+export default function RunsPage() {
+  const [offset, setOffset] = useState(0);
+
+  const { data, isLoading, error } = api.fetcher.runs.useQuery(
+    { limit: PAGE_SIZE, offset },
+    { retry: false }
+  );
+
+  const total = data?.total ?? 0;
+  const hasPrevious = offset > 0;
+  const hasNext = offset + PAGE_SIZE < total;
+
+  return (
+    <main className="min-h-screen p-8">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/dashboard"
+            className="text-sm text-muted-foreground hover:text-foreground mb-2 inline-block"
+          >
+            &larr; Back to dashboard
+          </Link>
+          <h1 className="text-3xl font-bold">Fetch History</h1>
+          <p className="text-sm text-muted-foreground mt-2">{total} runs</p>
+        </div>
+
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading runs...</p>
+        ) : error ? (
+          <div className="border border-border rounded-lg p-6 border-dashed">
+            <p className="text-muted-foreground text-center">
+              {error.data?.code === "UNAUTHORIZED" ||
+              error.data?.code === "FORBIDDEN"
+                ? "Fetch history is only available to admins."
+                : error.message}
+            </p>
+          </div>
+        ) : data?.items.length === 0 ? (
+          <div className="border border-border rounded-lg p-6 border-dashed">
+            <p className="text-muted-foreground text-center">
+              No fetch runs yet.
+            </p>
+          </div>
+        ) : (
+          <div className="border border-border rounded-lg divide-y divide-border">
+            {data?.items.map((run) => (
+              <Link
+                key={run.id}
+                href={`/runs/${run.id}`}
+                className="flex justify-between items-center gap-4 p-4 hover:bg-secondary/30 transition-colors"
+              >
+                <div className="min-w-0">
+                  <div className="flex gap-2 items-center">
+                    <span className="px-2 py-0.5 rounded bg-secondary text-xs">
+                      {run.trigger}
+                    </span>
+                    <span className="text-sm font-medium">
+                      {new Date(run.startedAt).toLocaleString("en-US")}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1 truncate">
+                    {run.providers.length > 0
+                      ? run.providers.join(", ")
+                      : "No providers"}{" "}
+                    • {formatDuration(run.startedAt, run.finishedAt)}
+                  </p>
+                </div>
+                <div className="text-right text-xs text-muted-foreground flex-shrink-0">
+                  <p>
+                    <span className="text-foreground font-medium">
+                      {run.inserted}
+                    </span>{" "}
+                    new / {run.fetched} fetched
+                  </p>
+                  {run.errors.length > 0 && (
+                    <p className="text-destructive">
+                      {run.errors.length} error
+                      {run.errors.length === 1 ? "" : "s"}
+                    </p>
+                  )}
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {/* Pagination */}
+        {(hasPrevious || hasNext) && (
+          <div className="flex justify-between items-center mt-6 text-sm">
+            <button
+              onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+              disabled={!hasPrevious}
+              className="px-3 py-1 rounded-md bg-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              &larr; Newer
+            </button>
+            <span className="text-muted-foreground">
+              {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+            </span>
+            <button
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={!hasNext}
+              className="px-3 py-1 rounded-md bg-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Older &rarr;
+            </button>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { use } from "react";
+import { api } from "@/utils/trpc/react";
+import Link from "next/link";
+
+function formatDay(day: string) {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export default function StoryPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = use(params);
+
+  const { data, isLoading } = api.story.timeline.useQuery(
+    { id },
+    { retry: false }
+  );
+
+  if (isLoading) {
+    return (
+      <main className="min-h-screen p-8">
+        <div className="max-w-4xl mx-auto">
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (!data) {
+    return (
+      <main className="min-h-screen p-8">
+        <div className="max-w-4xl mx-auto">
+          <h1 className="text-2xl font-bold mb-4">Story not found</h1>
+          <Link href="/browse" className="text-primary hover:underline">
+            Back to articles
+          </Link>
+        </div>
+      </main>
+    );
+  }
+
+  const { story, articles, days } = data;
+  const busiest = Math.max(...days.map((d) => d.count));
+
+  // Articles under the UTC day they were published
+  const byDay = days
+    .map((day) => ({
+      ...day,
+      articles: articles.filter(
+        (a) => new Date(a.publishedAt).toISOString().slice(0, 10) === day.date
+      ),
+    }))
+    .filter((day) => day.articles.length > 0);
+
+  return (
+    <main className="min-h-screen p-8">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/browse"
+            className="text-sm text-muted-foreground hover:text-foreground mb-2 inline-block"
+          >
+            &larr; Back to articles
+          </Link>
+          <h1 className="text-3xl font-bold">{story.title}</h1>
+          <p className="text-sm text-muted-foreground mt-2">
+            {story.articleCount} articles over {days.length}{" "}
+            {days.length === 1 ? "day" : "days"} • first reported{" "}
+            {new Date(story.firstPublishedAt).toLocaleString("en-US")}
+          </p>
+        </div>
+
+        {/* Coverage per day */}
+        <div className="border border-border rounded-lg p-6 mb-8">
+          <h2 className="text-lg font-semibold mb-4">Coverage</h2>
+          <div className="flex items-end gap-2 h-32">
+            {days.map((day) => (
+              <div
+                key={day.date}
+                className="flex-1 flex flex-col items-center justify-end h-full"
+                title={`${formatDay(day.date)}: ${day.count}`}
+              >
+                <span className="text-xs text-muted-foreground mb-1">
+                  {day.count || ""}
+                </span>
+                <div
+                  className="w-full bg-primary/70 rounded-t"
+                  style={{ height: `${(day.count / busiest) * 100}%` }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2 mt-2">
+            {days.map((day) => (
+              <span
+                key={day.date}
+                className="flex-1 text-center text-xs text-muted-foreground"
+              >
+                {formatDay(day.date)}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {/* Timeline */}
+        {byDay.map((day) => (
+          <div key={day.date} className="mb-8">
+            <div className="sticky top-0 bg-background/95 backdrop-blur-sm py-3 mb-4 border-b border-border z-10">
+              <h2 className="text-lg font-semibold text-foreground">
+                {formatDay(day.date)}
+              </h2>
+            </div>
+
+            <ol className="space-y-4 border-l border-border pl-6">
+              {day.articles.map((article) => (
+                <li key={article.id} className="relative">
+                  <span className="absolute -left-[29px] top-1.5 w-2 h-2 rounded-full bg-primary" />
+                  <a
+                    href={article.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-medium hover:underline"
+                  >
+                    {article.title}
+                  </a>
+                  {article.description && (
+                    <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
+                      {article.description}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap gap-2 mt-2 text-xs text-muted-foreground">
+                    {article.publisherName && (
+                      <span className="bg-secondary px-2 py-0.5 rounded">
+                        {article.publisherName}
+                      </span>
+                    )}
+                    {article.topic && (
+                      <span className="bg-primary/10 text-primary px-2 py-0.5 rounded">
+                        {article.topic.name}
+                      </span>
+                    )}
+                    <span>
+                      {new Date(article.publishedAt).toLocaleTimeString(
+                        "en-US",
+                        {
+                          hour: "numeric",
+                          minute: "2-digit",
+                        }
+                      )}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </div>
+        ))}
+      </div>
+    </main>
+  );
+}
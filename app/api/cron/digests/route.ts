@@ -0,0 +1,30 @@
+import {
+  isAuthorizedCronRequest,
+  runScheduledDigests,
+} from "@/lib/services/cron";
+
+// One AI summary and image per topic
+export const maxDuration = 300;
+export const dynamic = "force-dynamic";
+
+/**
+ * Scheduled generation of today's global and topic digests
+ * Requires `Authorization: Bearer <CRON_SECRET>`; pass `?force=true` to
+ * regenerate digests that already exist
+ */
+export async function GET(request: Request) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const force = new URL(request.url).searchParams.get("force") === "true";
+
+    return Response.json(await runScheduledDigests({ forceRegenerate: force }));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return Response.json({ status: "failed", error: message }, { status: 500 });
+  }
+}
+
+export const POST = GET;
@@ -0,0 +1,27 @@
+import {
+  isAuthorizedCronRequest,
+  runScheduledFetch,
+} from "@/lib/services/cron";
+
+// Fetching, extraction and AI tagging can take a few minutes
+export const maxDuration = 300;
+export const dynamic = "force-dynamic";
+
+/**
+ * Scheduled fetch from all enabled sources and feeds
+ * Requires `Authorization: Bearer <CRON_SECRET>`
+ */
+export async function GET(request: Request) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return Response.json(await runScheduledFetch());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return Response.json({ status: "failed", error: message }, { status: 500 });
+  }
+}
+
+export const POST = GET;
@@ -0,0 +1,28 @@
+import { isAuthorizedCronRequest } from "@/lib/services/cron";
+import { runJobs } from "@/lib/services/jobs";
+
+export const maxDuration = 300;
+export const dynamic = "force-dynamic";
+
+// Stop claiming new jobs with enough headroom to finish the current one
+const TIME_BUDGET_MS = 3 * 60 * 1000;
+
+/**
+ * Work through queued background jobs
+ * Requires `Authorization: Bearer <CRON_SECRET>`; safe to run concurrently,
+ * each invocation claims different jobs
+ */
+export async function GET(request: Request) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return Response.json(await runJobs({ timeBudgetMs: TIME_BUDGET_MS }));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return Response.json({ status: "failed", error: message }, { status: 500 });
+  }
+}
+
+export const POST = GET;
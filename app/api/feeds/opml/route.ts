@@ -0,0 +1,15 @@
+import { exportOpml } from "@/lib/services/opml";
+
+/**
+ * Download registered feeds as an .opml file
+ */
+export async function GET() {
+  const opml = await exportOpml();
+
+  return new Response(opml, {
+    headers: {
+      "Content-Type": "text/x-opml; charset=utf-8",
+      "Content-Disposition": 'attachment; filename="feeds.opml"',
+    },
+  });
+}
@@ -0,0 +1,56 @@
+import {
+  findUnknownTopics,
+  ingestArticles,
+  ingestPayloadSchema,
+  isAuthorizedIngestRequest,
+} from "@/lib/services/ingest";
+
+// Extraction and AI tagging for a full batch can take a while
+export const maxDuration = 300;
+export const dynamic = "force-dynamic";
+
+/**
+ * Push one article, or `{ "articles": [...] }`, into the pipeline
+ * Requires `Authorization: Bearer <INGEST_API_KEY>`
+ * Pass `?extract=false` when the payload already has the full text
+ */
+export async function POST(request: Request) {
+  try {
+    if (!isAuthorizedIngestRequest(request)) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return Response.json({ error: "Body must be JSON" }, { status: 400 });
+    }
+
+    const parsed = ingestPayloadSchema.safeParse(body);
+    if (!parsed.success) {
+      return Response.json(
+        { error: "Invalid payload", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const unknownTopics = await findUnknownTopics(parsed.data);
+    if (unknownTopics.length > 0) {
+      return Response.json(
+        { error: "Unknown topic slug", topics: unknownTopics },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const result = await ingestArticles(parsed.data, {
+      extractContent: searchParams.get("extract") !== "false",
+    });
+
+    return Response.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return Response.json({ status: "failed", error: message }, { status: 500 });
+  }
+}
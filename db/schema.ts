@@ -6,11 +6,16 @@ import {
   uuid,
   varchar,
   integer,
+  boolean,
+  jsonb,
+  real,
   primaryKey,
+  unique,
   uniqueIndex,
   index,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import type { AdapterAccountType } from "next-auth/adapters";
 
 // ============================================
@@ -18,6 +23,42 @@ import type { AdapterAccountType } from "next-auth/adapters";
 // ============================================
 
 export const digestTypeEnum = pgEnum("digest_type", ["daily", "weekly"]);
+export const fetchTriggerEnum = pgEnum("fetch_trigger", [
+  "manual",
+  "cron",
+  "backfill",
+]);
+export const jobStatusEnum = pgEnum("job_status", [
+  "pending",
+  "running",
+  "completed",
+  "dead", // Out of attempts, kept for inspection and manual retry
+]);
+export const backfillStatusEnum = pgEnum("backfill_status", [
+  "pending",
+  "running",
+  "paused",
+  "completed",
+  "failed",
+]);
+export const labelSourceEnum = pgEnum("label_source", [
+  "rule",
+  "ai",
+  "hint", // Default topic of the feed or query
+  "legacy", // Carried over from articles.topicId
+  "manual", // Set by an editor
+]);
+export const tagSourceEnum = pgEnum("tag_source", [
+  "rule",
+  "ai",
+  "hint",
+  "manual",
+]);
+export const tagTriggerEnum = pgEnum("tag_trigger", [
+  "ingest", // Tagged when first stored
+  "retag", // Re-run on a stored article
+  "manual", // Set by an editor (article.setTopic)
+]);
 
 // ============================================
 // NextAuth Tables (for future use)
@@ -72,7 +113,7 @@ export const verificationTokens = pgTable(
 );
 
 // ============================================
-// Topics (Fixed Categories)
+// Topics (Editable Categories)
 // ============================================
 
 export const topics = pgTable("topics", {
@@ -81,9 +122,40 @@ export const topics = pgTable("topics", {
   slug: varchar("slug", { length: 50 }).notNull().unique(),
   description: text("description"),
   sortOrder: integer("sort_order").default(0).notNull(),
+
+  // Topic-scoped fetching (one extra provider request per source per run)
+  fetchEnabled: boolean("fetch_enabled").default(true).notNull(),
+  fetchQuery: text("fetch_query"), // null = the default query in TOPICS
+  fetchLang: varchar("fetch_lang", { length: 10 }), // null = provider default
+  fetchCountry: varchar("fetch_country", { length: 10 }),
+  fetchBudget: integer("fetch_budget").default(10).notNull(), // Articles per source per run
+
+  // Set once the built-in keywords were copied in, so deleted ones stay deleted
+  keywordsSeededAt: timestamp("keywords_seeded_at", { mode: "date" }),
+
   createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
 });
 
+// Keyword rules for the tagger, edited without a deploy - whole words or
+// phrases, weighted, or negative to count against the topic
+export const topicKeywords = pgTable(
+  "topic_keywords",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    topicId: uuid("topic_id")
+      .notNull()
+      .references(() => topics.id, { onDelete: "cascade" }),
+    keyword: varchar("keyword", { length: 200 }).notNull(), // Lowercase
+    weight: real("weight").default(1).notNull(), // Evidence per match, 1 = ordinary
+    negative: boolean("negative").default(false).notNull(), // Subtracts its weight
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+  },
+  (t) => [
+    uniqueIndex("topic_keywords_topic_keyword_idx").on(t.topicId, t.keyword),
+  ]
+);
+
 // ============================================
 // Articles (News from APIs)
 // ============================================
@@ -95,6 +167,8 @@ export const articles = pgTable(
     topicId: uuid("topic_id").references(() => topics.id, {
       onDelete: "set null",
     }),
+    // Set when an editor chose the topic - automated re-tagging skips it
+    manuallyTaggedAt: timestamp("manually_tagged_at", { mode: "date" }),
 
     // Source (just a string, no separate table)
     sourceName: varchar("source_name", { length: 100 }), // GNews, NewsAPI, NewsData
@@ -108,22 +182,395 @@ export const articles = pgTable(
     // Publisher
     publisherName: varchar("publisher_name", { length: 255 }),
 
-    // URLs
+    // URLs - url is the canonical one (redirects followed, canonical link
+    // read), originalUrl the one the source gave us
     url: text("url").notNull(),
-    urlHash: varchar("url_hash", { length: 64 }).notNull(), // SHA-256 for dedup
+    urlHash: varchar("url_hash", { length: 64 }).notNull(), // SHA-256 of url, for dedup
+    originalUrl: text("original_url"),
+    originalUrlHash: varchar("original_url_hash", { length: 64 }),
     imageUrl: text("image_url"),
 
+    // Language and region, lowercase ISO codes (e.g. "ja", "jp")
+    language: varchar("language", { length: 10 }),
+    region: varchar("region", { length: 10 }),
+
+    // Same-event coverage from other outlets, null when it has none
+    clusterId: uuid("cluster_id").references(() => storyClusters.id, {
+      onDelete: "set null",
+    }),
+
+    // Event this article follows up on, across days
+    storyId: uuid("story_id").references(() => stories.id, {
+      onDelete: "set null",
+    }),
+
+    // Full-text extraction (content holds the extracted text when set)
+    wordCount: integer("word_count"),
+    contentExtractedAt: timestamp("content_extracted_at", { mode: "date" }),
+
     // Timestamps
     publishedAt: timestamp("published_at", { mode: "date" }).notNull(),
     fetchedAt: timestamp("fetched_at", { mode: "date" }).defaultNow().notNull(),
   },
   (t) => [
     uniqueIndex("articles_url_hash_idx").on(t.urlHash),
+    index("articles_original_url_hash_idx").on(t.originalUrlHash),
     index("articles_published_at_idx").on(t.publishedAt),
     index("articles_topic_id_idx").on(t.topicId),
+    index("articles_language_idx").on(t.language),
+    index("articles_cluster_id_idx").on(t.clusterId),
+    index("articles_story_id_idx").on(t.storyId),
+  ]
+);
+
+// ============================================
+// Article Topics (Multi-Label)
+// ============================================
+
+// Every topic an article belongs to - an Nvidia GPU launch is both Big
+// Tech and Hardware. articles.topicId stays the primary (best) one.
+export const articleTopics = pgTable(
+  "article_topics",
+  {
+    articleId: uuid("article_id")
+      .notNull()
+      .references(() => articles.id, { onDelete: "cascade" }),
+    topicId: uuid("topic_id")
+      .notNull()
+      .references(() => topics.id, { onDelete: "cascade" }),
+    confidence: real("confidence"), // 0-1, null for legacy labels
+    source: labelSourceEnum("source").notNull(),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  },
+  (t) => [
+    primaryKey({ columns: [t.articleId, t.topicId] }),
+    index("article_topics_topic_id_idx").on(t.topicId),
+  ]
+);
+
+// How each tagging run decided - one row per run, kept as history
+export const articleTagEvents = pgTable(
+  "article_tag_events",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    articleId: uuid("article_id")
+      .notNull()
+      .references(() => articles.id, { onDelete: "cascade" }),
+    topicId: uuid("topic_id").references(() => topics.id, {
+      onDelete: "set null",
+    }), // Primary topic chosen, null = untagged
+    previousTopicId: uuid("previous_topic_id").references(() => topics.id, {
+      onDelete: "set null",
+    }), // The article's topic before this run
+    userId: uuid("user_id").references(() => users.id, {
+      onDelete: "set null",
+    }), // Who, for manual changes
+    trigger: tagTriggerEnum("trigger").notNull(),
+    source: tagSourceEnum("source").notNull(),
+    confidence: real("confidence").notNull(), // 0-1
+    matchedKeywords: jsonb("matched_keywords")
+      .$type<string[]>()
+      .default([])
+      .notNull(),
+    reasoning: text("reasoning"), // From the AI, the topic hint or the editor
+    labels: jsonb("labels")
+      .$type<{ topicSlug: string; confidence: number }[]>()
+      .default([])
+      .notNull(),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  },
+  (t) => [
+    index("article_tag_events_article_id_idx").on(t.articleId, t.createdAt),
+    index("article_tag_events_created_at_idx").on(t.createdAt),
+  ]
+);
+
+// ============================================
+// Story Clusters (Same-Event Coverage)
+// ============================================
+
+// Articles about the same event from different outlets, matched on title
+// and description within a time window. Only clusters of two or more
+// articles are stored.
+export const storyClusters = pgTable(
+  "story_clusters",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+
+    // Earliest member - shown for the cluster when lists collapse it
+    leadArticleId: uuid("lead_article_id").references(
+      (): AnyPgColumn => articles.id,
+      { onDelete: "set null" }
+    ),
+    memberCount: integer("member_count").default(0).notNull(),
+    publishers: jsonb("publishers").$type<string[]>().default([]).notNull(), // Distinct, lead's first
+
+    firstPublishedAt: timestamp("first_published_at", {
+      mode: "date",
+    }).notNull(),
+    lastPublishedAt: timestamp("last_published_at", { mode: "date" }).notNull(),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+  },
+  (t) => [
+    index("story_clusters_lead_article_id_idx").on(t.leadArticleId),
+    index("story_clusters_last_published_at_idx").on(t.lastPublishedAt),
+  ]
+);
+
+// ============================================
+// Stories (Events Followed Across Days)
+// ============================================
+
+// An event followed across days - an article joins the story of a similar
+// article from the past week, so coverage of e.g. a breach reads as a
+// timeline. Only stories of two or more articles are stored.
+export const stories = pgTable(
+  "stories",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    title: text("title").notNull(), // Headline of the earliest article
+    articleCount: integer("article_count").default(0).notNull(),
+
+    firstPublishedAt: timestamp("first_published_at", {
+      mode: "date",
+    }).notNull(),
+    lastPublishedAt: timestamp("last_published_at", { mode: "date" }).notNull(),
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+  },
+  (t) => [index("stories_last_published_at_idx").on(t.lastPublishedAt)]
+);
+
+// ============================================
+// Feeds (RSS / Atom Subscriptions)
+// ============================================
+
+export const feeds = pgTable("feeds", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  url: text("url").notNull().unique(),
+  title: varchar("title", { length: 500 }),
+  siteUrl: text("site_url"),
+  enabled: boolean("enabled").default(true).notNull(),
+
+  // Default topic for items the tagger can't place (e.g. from an OPML folder)
+  topicId: uuid("topic_id").references(() => topics.id, {
+    onDelete: "set null",
+  }),
+
+  // Conditional GET validators from the last 200 response
+  etag: text("etag"),
+  lastModified: text("last_modified"),
+
+  lastFetchedAt: timestamp("last_fetched_at", { mode: "date" }),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+});
+
+// ============================================
+// URL Normalization Rules
+// ============================================
+
+// Layered over the built-in tracking-param list: the "*" rule applies to
+// every host, then the most specific host rule (a rule for example.com
+// also covers news.example.com). Changing rules queues a rehash of stored
+// articles.
+export const urlRules = pgTable("url_rules", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  host: varchar("host", { length: 255 }).notNull().unique(), // "*" = every host
+  stripParams: jsonb("strip_params").$type<string[]>().default([]).notNull(), // "utm_*" style prefixes allowed
+  keepParams: jsonb("keep_params").$type<string[]>().default([]).notNull(), // Overrides stripping
+  caseSensitivePath: boolean("case_sensitive_path"), // null = inherit ("*" defaults to false)
+  aliasOf: varchar("alias_of", { length: 255 }), // Hash as this host, e.g. m.example.com -> example.com
+  createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+});
+
+// ============================================
+// Ingestion Profiles (Language / Region)
+// ============================================
+
+// The general query runs once per enabled profile; with none configured,
+// fetches use English / US
+export const ingestionProfiles = pgTable("ingestion_profiles", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: varchar("name", { length: 100 }).notNull().unique(), // e.g. "Japan"
+  language: varchar("language", { length: 10 }).notNull(), // e.g. "ja"
+  country: varchar("country", { length: 10 }).notNull(), // e.g. "jp"
+  query: text("query"), // null = the source's default query
+  maxArticles: integer("max_articles").default(20).notNull(), // Per source per run
+  enabled: boolean("enabled").default(true).notNull(),
+  createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+});
+
+// ============================================
+// Extraction Failures (Per Domain)
+// ============================================
+
+export const extractionFailures = pgTable("extraction_failures", {
+  domain: varchar("domain", { length: 255 }).primaryKey(),
+  failureCount: integer("failure_count").default(0).notNull(),
+  lastError: text("last_error"),
+  lastUrl: text("last_url"),
+  lastFailedAt: timestamp("last_failed_at", { mode: "date" })
+    .defaultNow()
+    .notNull(),
+});
+
+// ============================================
+// Fetch Runs (Ingestion History)
+// ============================================
+
+export interface FetchRunCounts {
+  fetched: number;
+  inserted: number;
+  duplicates: number;
+  taggedByRule: number;
+  taggedByAI: number;
+  untagged: number;
+  extracted: number;
+}
+
+export const fetchRuns = pgTable(
+  "fetch_runs",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    trigger: fetchTriggerEnum("trigger").notNull(),
+    providers: jsonb("providers").$type<string[]>().default([]).notNull(),
+    backfillId: uuid("backfill_id").references(() => backfills.id, {
+      onDelete: "set null",
+    }),
+
+    startedAt: timestamp("started_at", { mode: "date" }).defaultNow().notNull(),
+    finishedAt: timestamp("finished_at", { mode: "date" }), // null = running or crashed
+
+    // Counts (same fields as FetchResult)
+    fetched: integer("fetched").default(0).notNull(),
+    inserted: integer("inserted").default(0).notNull(),
+    duplicates: integer("duplicates").default(0).notNull(),
+    taggedByRule: integer("tagged_by_rule").default(0).notNull(),
+    taggedByAI: integer("tagged_by_ai").default(0).notNull(),
+    untagged: integer("untagged").default(0).notNull(),
+    extracted: integer("extracted").default(0).notNull(),
+    bySource: jsonb("by_source")
+      .$type<Record<string, FetchRunCounts>>()
+      .default({})
+      .notNull(),
+    deferred: jsonb("deferred").$type<string[]>().default([]).notNull(),
+    errors: jsonb("errors").$type<string[]>().default([]).notNull(),
+  },
+  (t) => [index("fetch_runs_started_at_idx").on(t.startedAt)]
+);
+
+// ============================================
+// Provider Quota & Watermarks
+// ============================================
+
+export const providerUsage = pgTable(
+  "provider_usage",
+  {
+    provider: varchar("provider", { length: 50 }).notNull(),
+    day: varchar("day", { length: 10 }).notNull(), // UTC date, YYYY-MM-DD
+    requestCount: integer("request_count").default(0).notNull(),
+  },
+  (t) => [primaryKey({ columns: [t.provider, t.day] })]
+);
+
+export const providerState = pgTable("provider_state", {
+  // Source name, or "source:topic-slug" for topic-scoped fetches
+  provider: varchar("provider", { length: 100 }).primaryKey(),
+  // Newest publishedAt ingested, used as the next incremental fetch's `from`
+  watermark: timestamp("watermark", { mode: "date" }),
+  updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+});
+
+// ============================================
+// Leases (Scheduled Task Locks)
+// ============================================
+
+// One row per named task; a live lease means another caller is running it
+export const leases = pgTable("leases", {
+  name: varchar("name", { length: 100 }).primaryKey(),
+  holder: varchar("holder", { length: 100 }).notNull(),
+  acquiredAt: timestamp("acquired_at", { mode: "date" }).defaultNow().notNull(),
+  expiresAt: timestamp("expires_at", { mode: "date" }).notNull(),
+});
+
+// ============================================
+// Jobs (Background Work Queue)
+// ============================================
+
+export const jobs = pgTable(
+  "jobs",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    kind: varchar("kind", { length: 50 }).notNull(),
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    status: jobStatusEnum("status").default("pending").notNull(),
+    // At most one pending or running job per key (e.g. one digest per day)
+    dedupeKey: varchar("dedupe_key", { length: 200 }),
+
+    attempts: integer("attempts").default(0).notNull(),
+    maxAttempts: integer("max_attempts").default(5).notNull(),
+    runAt: timestamp("run_at", { mode: "date" }).defaultNow().notNull(), // Not before
+    lockedAt: timestamp("locked_at", { mode: "date" }),
+    lockedBy: varchar("locked_by", { length: 100 }),
+
+    result: jsonb("result"),
+    lastError: text("last_error"),
+
+    createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+    completedAt: timestamp("completed_at", { mode: "date" }),
+  },
+  (t) => [
+    index("jobs_status_run_at_idx").on(t.status, t.runAt),
+    uniqueIndex("jobs_active_dedupe_key_idx")
+      .on(t.dedupeKey)
+      .where(sql`${t.status} in ('pending', 'running')`),
   ]
 );
 
+// ============================================
+// Backfills (Historical Fetch Jobs)
+// ============================================
+
+export interface BackfillCursor {
+  phase: "fetch" | "digests";
+  windowStart: string; // ISO start of the window being fetched
+  sourceIndex: number; // Index into sources for the current window
+  page: number; // Next page to request
+  digestDay: string | null; // ISO day of the next digest to generate
+}
+
+export const backfills = pgTable("backfills", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  status: backfillStatusEnum("status").default("pending").notNull(),
+
+  // Range and settings
+  from: timestamp("from", { mode: "date" }).notNull(),
+  to: timestamp("to", { mode: "date" }).notNull(),
+  sources: jsonb("sources").$type<string[]>().notNull(),
+  windowHours: integer("window_hours").default(24).notNull(),
+  pageSize: integer("page_size").default(50).notNull(),
+  maxPagesPerWindow: integer("max_pages_per_window").default(5).notNull(),
+  generateDigests: boolean("generate_digests").default(false).notNull(),
+
+  // Progress (resumes from the cursor after a pause or failure)
+  cursor: jsonb("cursor").$type<BackfillCursor>().notNull(),
+  requestsMade: integer("requests_made").default(0).notNull(),
+  fetched: integer("fetched").default(0).notNull(),
+  inserted: integer("inserted").default(0).notNull(),
+  duplicates: integer("duplicates").default(0).notNull(),
+  digestsGenerated: integer("digests_generated").default(0).notNull(),
+  errors: jsonb("errors").$type<string[]>().default([]).notNull(),
+  lastError: text("last_error"),
+
+  createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+  completedAt: timestamp("completed_at", { mode: "date" }),
+});
+
 // ============================================
 // Digests (AI Summaries)
 // ============================================
@@ -136,6 +583,7 @@ export const digests = pgTable(
     topicId: uuid("topic_id").references(() => topics.id, {
       onDelete: "cascade",
     }), // null = global digest
+    language: varchar("language", { length: 10 }), // null = all languages
     date: timestamp("date", { mode: "date" }).notNull(),
     title: varchar("title", { length: 500 }),
     content: text("content").notNull(),
@@ -144,7 +592,10 @@ export const digests = pgTable(
     createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
   },
   (t) => [
-    uniqueIndex("digests_type_topic_date_idx").on(t.type, t.topicId, t.date),
+    // NULLS NOT DISTINCT, so global and all-language digests are unique too
+    unique("digests_type_topic_language_date_key")
+      .on(t.type, t.topicId, t.language, t.date)
+      .nullsNotDistinct(),
     index("digests_date_idx").on(t.date),
   ]
 );
@@ -155,14 +606,84 @@ export const digests = pgTable(
 
 export const topicsRelations = relations(topics, ({ many }) => ({
   articles: many(articles),
+  articleTopics: many(articleTopics),
+  keywords: many(topicKeywords),
   digests: many(digests),
+  feeds: many(feeds),
+}));
+
+export const topicKeywordsRelations = relations(topicKeywords, ({ one }) => ({
+  topic: one(topics, {
+    fields: [topicKeywords.topicId],
+    references: [topics.id],
+  }),
+}));
+
+export const feedsRelations = relations(feeds, ({ one }) => ({
+  topic: one(topics, {
+    fields: [feeds.topicId],
+    references: [topics.id],
+  }),
 }));
 
-export const articlesRelations = relations(articles, ({ one }) => ({
+export const articlesRelations = relations(articles, ({ one, many }) => ({
   topic: one(topics, {
     fields: [articles.topicId],
     references: [topics.id],
   }),
+  cluster: one(storyClusters, {
+    fields: [articles.clusterId],
+    references: [storyClusters.id],
+  }),
+  story: one(stories, {
+    fields: [articles.storyId],
+    references: [stories.id],
+  }),
+  topics: many(articleTopics),
+  tagEvents: many(articleTagEvents),
+}));
+
+export const articleTagEventsRelations = relations(
+  articleTagEvents,
+  ({ one }) => ({
+    article: one(articles, {
+      fields: [articleTagEvents.articleId],
+      references: [articles.id],
+    }),
+    topic: one(topics, {
+      fields: [articleTagEvents.topicId],
+      references: [topics.id],
+      relationName: "tagEventTopic",
+    }),
+    previousTopic: one(topics, {
+      fields: [articleTagEvents.previousTopicId],
+      references: [topics.id],
+      relationName: "tagEventPreviousTopic",
+    }),
+    user: one(users, {
+      fields: [articleTagEvents.userId],
+      references: [users.id],
+    }),
+  })
+);
+
+export const articleTopicsRelations = relations(articleTopics, ({ one }) => ({
+  article: one(articles, {
+    fields: [articleTopics.articleId],
+    references: [articles.id],
+  }),
+  topic: one(topics, {
+    fields: [articleTopics.topicId],
+    references: [topics.id],
+  }),
+}));
+
+export const storyClustersRelations = relations(storyClusters, ({ many }) => ({
+  articles: many(articles),
+}));
+
+export const storiesRelations = relations(stories, ({ many }) => ({
+  articles: many(articles),
 }));
 
 export const digestsRelations = relations(digests, ({ one }) => ({
@@ -182,8 +703,48 @@ export type NewUser = typeof users.$inferInsert;
 export type Topic = typeof topics.$inferSelect;
 export type NewTopic = typeof topics.$inferInsert;
 
+export type TopicKeyword = typeof topicKeywords.$inferSelect;
+export type NewTopicKeyword = typeof topicKeywords.$inferInsert;
+
 export type Article = typeof articles.$inferSelect;
 export type NewArticle = typeof articles.$inferInsert;
 
+export type ArticleTopic = typeof articleTopics.$inferSelect;
+export type NewArticleTopic = typeof articleTopics.$inferInsert;
+
+export type ArticleTagEvent = typeof articleTagEvents.$inferSelect;
+export type NewArticleTagEvent = typeof articleTagEvents.$inferInsert;
+
+export type StoryCluster = typeof storyClusters.$inferSelect;
+export type NewStoryCluster = typeof storyClusters.$inferInsert;
+
+export type Story = typeof stories.$inferSelect;
+export type NewStory = typeof stories.$inferInsert;
+
+export type UrlRule = typeof urlRules.$inferSelect;
+export type NewUrlRule = typeof urlRules.$inferInsert;
+
+export type IngestionProfile = typeof ingestionProfiles.$inferSelect;
+export type NewIngestionProfile = typeof ingestionProfiles.$inferInsert;
+
+export type Feed = typeof feeds.$inferSelect;
+export type NewFeed = typeof feeds.$inferInsert;
+
+export type ExtractionFailure = typeof extractionFailures.$inferSelect;
+
+export type FetchRun = typeof fetchRuns.$inferSelect;
+export type NewFetchRun = typeof fetchRuns.$inferInsert;
+
+export type ProviderUsage = typeof providerUsage.$inferSelect;
+export type ProviderState = typeof providerState.$inferSelect;
+
+export type Lease = typeof leases.$inferSelect;
+
+export type Job = typeof jobs.$inferSelect;
+export type NewJob = typeof jobs.$inferInsert;
+
+export type Backfill = typeof backfills.$inferSelect;
+export type NewBackfill = typeof backfills.$inferInsert;
+
 export type Digest = typeof digests.$inferSelect;
 export type NewDigest = typeof digests.$inferInsert;
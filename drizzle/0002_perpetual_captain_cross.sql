@@ -0,0 +1,13 @@
+CREATE TABLE "feeds" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"url" text NOT NULL,
+	"title" varchar(500),
+	"site_url" text,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"etag" text,
+	"last_modified" text,
+	"last_fetched_at" timestamp,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "feeds_url_unique" UNIQUE("url")
+);
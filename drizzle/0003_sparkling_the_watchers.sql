@@ -0,0 +1,2 @@
+ALTER TABLE "feeds" ADD COLUMN "topic_id" uuid;--> statement-breakpoint
+ALTER TABLE "feeds" ADD CONSTRAINT "feeds_topic_id_topics_id_fk" FOREIGN KEY ("topic_id") REFERENCES "public"."topics"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
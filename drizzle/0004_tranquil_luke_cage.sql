@@ -0,0 +1,10 @@
+CREATE TABLE "extraction_failures" (
+	"domain" varchar(255) PRIMARY KEY NOT NULL,
+	"failure_count" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"last_url" text,
+	"last_failed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "articles" ADD COLUMN "word_count" integer;--> statement-breakpoint
+ALTER TABLE "articles" ADD COLUMN "content_extracted_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TYPE "public"."backfill_status" AS ENUM('pending', 'running', 'paused', 'completed', 'failed');--> statement-breakpoint
+CREATE TABLE "backfills" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"status" "backfill_status" DEFAULT 'pending' NOT NULL,
+	"from" timestamp NOT NULL,
+	"to" timestamp NOT NULL,
+	"sources" jsonb NOT NULL,
+	"window_hours" integer DEFAULT 24 NOT NULL,
+	"page_size" integer DEFAULT 50 NOT NULL,
+	"max_pages_per_window" integer DEFAULT 5 NOT NULL,
+	"generate_digests" boolean DEFAULT false NOT NULL,
+	"cursor" jsonb NOT NULL,
+	"requests_made" integer DEFAULT 0 NOT NULL,
+	"fetched" integer DEFAULT 0 NOT NULL,
+	"inserted" integer DEFAULT 0 NOT NULL,
+	"duplicates" integer DEFAULT 0 NOT NULL,
+	"digests_generated" integer DEFAULT 0 NOT NULL,
+	"errors" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
@@ -0,0 +1,12 @@
+CREATE TABLE "provider_state" (
+	"provider" varchar(50) PRIMARY KEY NOT NULL,
+	"watermark" timestamp,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "provider_usage" (
+	"provider" varchar(50) NOT NULL,
+	"day" varchar(10) NOT NULL,
+	"request_count" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "provider_usage_provider_day_pk" PRIMARY KEY("provider","day")
+);
@@ -0,0 +1,22 @@
+CREATE TYPE "public"."fetch_trigger" AS ENUM('manual', 'cron', 'backfill');--> statement-breakpoint
+CREATE TABLE "fetch_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"trigger" "fetch_trigger" NOT NULL,
+	"providers" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"backfill_id" uuid,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp,
+	"fetched" integer DEFAULT 0 NOT NULL,
+	"inserted" integer DEFAULT 0 NOT NULL,
+	"duplicates" integer DEFAULT 0 NOT NULL,
+	"tagged_by_rule" integer DEFAULT 0 NOT NULL,
+	"tagged_by_ai" integer DEFAULT 0 NOT NULL,
+	"untagged" integer DEFAULT 0 NOT NULL,
+	"extracted" integer DEFAULT 0 NOT NULL,
+	"by_source" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"deferred" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"errors" jsonb DEFAULT '[]'::jsonb NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "fetch_runs" ADD CONSTRAINT "fetch_runs_backfill_id_backfills_id_fk" FOREIGN KEY ("backfill_id") REFERENCES "public"."backfills"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "fetch_runs_started_at_idx" ON "fetch_runs" USING btree ("started_at");
\ No newline at end of file
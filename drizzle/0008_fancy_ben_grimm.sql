@@ -0,0 +1,28 @@
+CREATE TYPE "public"."job_status" AS ENUM('pending', 'running', 'completed', 'dead');--> statement-breakpoint
+CREATE TABLE "jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"kind" varchar(50) NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" "job_status" DEFAULT 'pending' NOT NULL,
+	"dedupe_key" varchar(200),
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 5 NOT NULL,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"locked_at" timestamp,
+	"locked_by" varchar(100),
+	"result" jsonb,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "leases" (
+	"name" varchar(100) PRIMARY KEY NOT NULL,
+	"holder" varchar(100) NOT NULL,
+	"acquired_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "jobs_status_run_at_idx" ON "jobs" USING btree ("status","run_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "jobs_active_dedupe_key_idx" ON "jobs" USING btree ("dedupe_key") WHERE "jobs"."status" in ('pending', 'running');
\ No newline at end of file
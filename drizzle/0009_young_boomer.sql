@@ -0,0 +1,6 @@
+ALTER TABLE "provider_state" ALTER COLUMN "provider" SET DATA TYPE varchar(100);--> statement-breakpoint
+ALTER TABLE "topics" ADD COLUMN "fetch_enabled" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "topics" ADD COLUMN "fetch_query" text;--> statement-breakpoint
+ALTER TABLE "topics" ADD COLUMN "fetch_lang" varchar(10);--> statement-breakpoint
+ALTER TABLE "topics" ADD COLUMN "fetch_country" varchar(10);--> statement-breakpoint
+ALTER TABLE "topics" ADD COLUMN "fetch_budget" integer DEFAULT 10 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "ingestion_profiles" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"language" varchar(10) NOT NULL,
+	"country" varchar(10) NOT NULL,
+	"query" text,
+	"max_articles" integer DEFAULT 20 NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ingestion_profiles_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+DROP INDEX "digests_type_topic_date_idx";--> statement-breakpoint
+ALTER TABLE "articles" ADD COLUMN "language" varchar(10);--> statement-breakpoint
+ALTER TABLE "articles" ADD COLUMN "region" varchar(10);--> statement-breakpoint
+ALTER TABLE "digests" ADD COLUMN "language" varchar(10);--> statement-breakpoint
+CREATE INDEX "articles_language_idx" ON "articles" USING btree ("language");--> statement-breakpoint
+CREATE UNIQUE INDEX "digests_type_topic_language_date_idx" ON "digests" USING btree ("type","topic_id","language","date");
\ No newline at end of file
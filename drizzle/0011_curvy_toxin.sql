@@ -0,0 +1,3 @@
+ALTER TABLE "articles" ADD COLUMN "original_url" text;--> statement-breakpoint
+ALTER TABLE "articles" ADD COLUMN "original_url_hash" varchar(64);--> statement-breakpoint
+CREATE INDEX "articles_original_url_hash_idx" ON "articles" USING btree ("original_url_hash");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "url_rules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"host" varchar(255) NOT NULL,
+	"strip_params" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"keep_params" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"case_sensitive_path" boolean,
+	"alias_of" varchar(255),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "url_rules_host_unique" UNIQUE("host")
+);
@@ -0,0 +1,17 @@
+CREATE TABLE "story_clusters" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"lead_article_id" uuid,
+	"member_count" integer DEFAULT 0 NOT NULL,
+	"publishers" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"first_published_at" timestamp NOT NULL,
+	"last_published_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "articles" ADD COLUMN "cluster_id" uuid;--> statement-breakpoint
+ALTER TABLE "story_clusters" ADD CONSTRAINT "story_clusters_lead_article_id_articles_id_fk" FOREIGN KEY ("lead_article_id") REFERENCES "public"."articles"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "story_clusters_lead_article_id_idx" ON "story_clusters" USING btree ("lead_article_id");--> statement-breakpoint
+CREATE INDEX "story_clusters_last_published_at_idx" ON "story_clusters" USING btree ("last_published_at");--> statement-breakpoint
+ALTER TABLE "articles" ADD CONSTRAINT "articles_cluster_id_story_clusters_id_fk" FOREIGN KEY ("cluster_id") REFERENCES "public"."story_clusters"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "articles_cluster_id_idx" ON "articles" USING btree ("cluster_id");
\ No newline at end of file
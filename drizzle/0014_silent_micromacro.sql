@@ -0,0 +1,14 @@
+CREATE TABLE "stories" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"title" text NOT NULL,
+	"article_count" integer DEFAULT 0 NOT NULL,
+	"first_published_at" timestamp NOT NULL,
+	"last_published_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "articles" ADD COLUMN "story_id" uuid;--> statement-breakpoint
+CREATE INDEX "stories_last_published_at_idx" ON "stories" USING btree ("last_published_at");--> statement-breakpoint
+ALTER TABLE "articles" ADD CONSTRAINT "articles_story_id_stories_id_fk" FOREIGN KEY ("story_id") REFERENCES "public"."stories"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "articles_story_id_idx" ON "articles" USING btree ("story_id");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TYPE "public"."label_source" AS ENUM('rule', 'ai', 'hint', 'legacy');--> statement-breakpoint
+CREATE TABLE "article_topics" (
+	"article_id" uuid NOT NULL,
+	"topic_id" uuid NOT NULL,
+	"confidence" real,
+	"source" "label_source" NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "article_topics_article_id_topic_id_pk" PRIMARY KEY("article_id","topic_id")
+);
+--> statement-breakpoint
+ALTER TABLE "article_topics" ADD CONSTRAINT "article_topics_article_id_articles_id_fk" FOREIGN KEY ("article_id") REFERENCES "public"."articles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "article_topics" ADD CONSTRAINT "article_topics_topic_id_topics_id_fk" FOREIGN KEY ("topic_id") REFERENCES "public"."topics"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "article_topics_topic_id_idx" ON "article_topics" USING btree ("topic_id");
\ No newline at end of file
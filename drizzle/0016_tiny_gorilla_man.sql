@@ -0,0 +1,11 @@
+CREATE TABLE "topic_keywords" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"topic_id" uuid NOT NULL,
+	"keyword" varchar(200) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "topics" ADD COLUMN "keywords_seeded_at" timestamp;--> statement-breakpoint
+ALTER TABLE "topic_keywords" ADD CONSTRAINT "topic_keywords_topic_id_topics_id_fk" FOREIGN KEY ("topic_id") REFERENCES "public"."topics"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "topic_keywords_topic_keyword_idx" ON "topic_keywords" USING btree ("topic_id","keyword");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "topic_keywords" ADD COLUMN "weight" real DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "topic_keywords" ADD COLUMN "negative" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TYPE "public"."tag_source" AS ENUM('rule', 'ai', 'hint');--> statement-breakpoint
+CREATE TYPE "public"."tag_trigger" AS ENUM('ingest', 'retag');--> statement-breakpoint
+CREATE TABLE "article_tag_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"article_id" uuid NOT NULL,
+	"topic_id" uuid,
+	"trigger" "tag_trigger" NOT NULL,
+	"source" "tag_source" NOT NULL,
+	"confidence" real NOT NULL,
+	"matched_keywords" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"reasoning" text,
+	"labels" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "article_tag_events" ADD CONSTRAINT "article_tag_events_article_id_articles_id_fk" FOREIGN KEY ("article_id") REFERENCES "public"."articles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "article_tag_events" ADD CONSTRAINT "article_tag_events_topic_id_topics_id_fk" FOREIGN KEY ("topic_id") REFERENCES "public"."topics"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "article_tag_events_article_id_idx" ON "article_tag_events" USING btree ("article_id","created_at");--> statement-breakpoint
+CREATE INDEX "article_tag_events_created_at_idx" ON "article_tag_events" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TYPE "public"."label_source" ADD VALUE 'manual';--> statement-breakpoint
+ALTER TYPE "public"."tag_source" ADD VALUE 'manual';--> statement-breakpoint
+ALTER TYPE "public"."tag_trigger" ADD VALUE 'manual';--> statement-breakpoint
+ALTER TABLE "article_tag_events" ADD COLUMN "previous_topic_id" uuid;--> statement-breakpoint
+ALTER TABLE "article_tag_events" ADD COLUMN "user_id" uuid;--> statement-breakpoint
+ALTER TABLE "articles" ADD COLUMN "manually_tagged_at" timestamp;--> statement-breakpoint
+ALTER TABLE "article_tag_events" ADD CONSTRAINT "article_tag_events_previous_topic_id_topics_id_fk" FOREIGN KEY ("previous_topic_id") REFERENCES "public"."topics"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "article_tag_events" ADD CONSTRAINT "article_tag_events_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+DROP INDEX "digests_type_topic_language_date_idx";--> statement-breakpoint
+ALTER TABLE "digests" ADD CONSTRAINT "digests_type_topic_language_date_key" UNIQUE NULLS NOT DISTINCT("type","topic_id","language","date");
\ No newline at end of file
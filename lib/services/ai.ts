@@ -2,11 +2,14 @@ import { openai } from "@ai-sdk/openai";
 import { generateObject, generateText } from "ai";
 import { z } from "zod";
 import OpenAI from "openai";
-import { TOPICS, type TopicSlug } from "./tagger";
+import { callUpstream } from "./resilience";
+import type { TopicRule } from "./tagger";
 
 // OpenAI client for image generation
+// Retries are left to callUpstream so attempts aren't multiplied
 const openaiClient = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
+  maxRetries: 0,
 });
 
 // ============================================
@@ -15,29 +18,39 @@ const openaiClient = new OpenAI({
 
 const DEFAULT_MODEL = "gpt-4o-mini"; // Fast and cheap for tagging
 
+// All OpenAI calls share one circuit breaker
+const OPENAI_UPSTREAM = "openai";
+const TEXT_TIMEOUT_MS = 30_000;
+const IMAGE_TIMEOUT_MS = 90_000;
+
 // ============================================
 // AI Topic Tagging
 // ============================================
 
-const topicSlugs = Object.keys(TOPICS) as TopicSlug[];
-
-const TagResultSchema = z.object({
-  topicSlug: z.enum(topicSlugs as [TopicSlug, ...TopicSlug[]]).nullable(),
-  confidence: z.number().min(0).max(1),
-  reasoning: z.string(),
-});
-
-export type AITagResult = z.infer<typeof TagResultSchema>;
+export interface AITagResult {
+  topicSlug: string | null;
+  confidence: number;
+  reasoning: string;
+}
 
 /**
- * Use AI to tag an article with a topic
+ * Use AI to tag an article with one of the given topics
+ * Throws when the request fails
  */
 export async function aiTagArticle(
   title: string,
-  description?: string
+  description: string | undefined,
+  topics: Pick<TopicRule, "slug" | "name">[]
 ): Promise<AITagResult> {
-  const topicDescriptions = Object.entries(TOPICS)
-    .map(([slug, topic]) => `- ${slug}: ${topic.name}`)
+  const topicSlugs = topics.map((t) => t.slug);
+  const TagResultSchema = z.object({
+    topicSlug: z.enum(topicSlugs as [string, ...string[]]).nullable(),
+    confidence: z.number().min(0).max(1),
+    reasoning: z.string(),
+  });
+
+  const topicDescriptions = topics
+    .map((topic) => `- ${topic.slug}: ${topic.name}`)
     .join("\n");
 
   const prompt = `You are a tech news categorizer. Analyze the following article and assign it to the most appropriate topic.
@@ -54,22 +67,20 @@ Rules:
 - Confidence should be 0.0-1.0 based on how well it matches
 - Provide brief reasoning for your choice`;
 
-  try {
-    const result = await generateObject({
-      model: openai(DEFAULT_MODEL),
-      schema: TagResultSchema,
-      prompt,
-    });
-
-    return result.object;
-  } catch (error) {
-    console.error("AI tagging failed:", error);
-    return {
-      topicSlug: null,
-      confidence: 0,
-      reasoning: "AI tagging failed",
-    };
-  }
+  const result = await callUpstream(
+    OPENAI_UPSTREAM,
+    (abortSignal) =>
+      generateObject({
+        model: openai(DEFAULT_MODEL),
+        schema: TagResultSchema,
+        prompt,
+        maxRetries: 0,
+        abortSignal,
+      }),
+    { timeoutMs: TEXT_TIMEOUT_MS }
+  );
+
+  return result.object;
 }
 
 // ============================================
@@ -80,7 +91,10 @@ export interface ArticleForDigest {
   title: string;
   description?: string;
   publisherName?: string;
+  excerpt?: string; // Opening of the extracted full text
   url: string;
+  alsoCoveredBy?: string[]; // Other outlets with the same story
+  developingSince?: Date; // First coverage, when the story began on an earlier day
 }
 
 export interface DigestResult {
@@ -98,9 +112,12 @@ export async function generateDigest(
   options: {
     topicName?: string; // e.g., "AI & Machine Learning" or null for global
     date: Date;
+    withImage?: boolean; // Set false to generate the image separately
+    language?: string | null; // ISO 639-1 code to write in, e.g. "fr"
   }
 ): Promise<DigestResult> {
-  const { topicName, date } = options;
+  const { topicName, date, withImage = true, language } = options;
+  const writeIn = language ? ` in ${languageName(language)}` : "";
   const dateStr = date.toLocaleDateString("en-US", {
     weekday: "long",
     year: "numeric",
@@ -110,12 +127,7 @@ export async function generateDigest(
 
   const scope = topicName ? `${topicName} news` : "tech news";
 
-  const articleList = articles
-    .map(
-      (a, i) =>
-        `${i + 1}. "${a.title}"${a.publisherName ? ` (${a.publisherName})` : ""}${a.description ? `\n   ${a.description}` : ""}`
-    )
-    .join("\n\n");
+  const articleList = articles.map(formatDigestArticle).join("\n\n");
 
   const prompt = `You are a tech news editor. Write a brief daily digest of today's ${scope}.
 
@@ -127,29 +139,46 @@ ${articleList}
 
 Instructions:
 - Write 2-3 short paragraphs MAX (under 150 words total)
-- Lead with the biggest story
+- Lead with the biggest story - stories more outlets covered usually matter more
 - Be direct and punchy - no fluff
 - Synthesize themes, don't list headlines
-- Skip minor stories if needed
+- For developing stories, say what's new rather than retelling them
+- Skip minor stories if needed${writeIn ? `\n- Write${writeIn}` : ""}
 
 Write the digest:`;
 
   try {
-    const result = await generateText({
-      model: openai(DEFAULT_MODEL),
-      prompt,
-    });
+    const result = await callUpstream(
+      OPENAI_UPSTREAM,
+      (abortSignal) =>
+        generateText({
+          model: openai(DEFAULT_MODEL),
+          prompt,
+          maxRetries: 0,
+          abortSignal,
+        }),
+      { timeoutMs: TEXT_TIMEOUT_MS }
+    );
 
     // Generate a title for the digest
-    const titleResult = await generateText({
-      model: openai(DEFAULT_MODEL),
-      prompt: `Write a catchy 5-7 word title for this digest:\n\n${result.text}\n\nTitle:`,
-    });
+    const titleResult = await callUpstream(
+      OPENAI_UPSTREAM,
+      (abortSignal) =>
+        generateText({
+          model: openai(DEFAULT_MODEL),
+          prompt: `Write a catchy 5-7 word title${writeIn} for this digest:\n\n${result.text}\n\nTitle:`,
+          maxRetries: 0,
+          abortSignal,
+        }),
+      { timeoutMs: TEXT_TIMEOUT_MS }
+    );
 
     // Generate an image for the digest
     let imageUrl: string | undefined;
     try {
-      imageUrl = await generateDigestImage(result.text, topicName);
+      if (withImage) {
+        imageUrl = await generateDigestImage(result.text, topicName);
+      }
     } catch (error) {
       console.error("Digest image generation failed:", error);
       // Continue without image - it's optional
@@ -167,6 +196,50 @@ Write the digest:`;
   }
 }
 
+/**
+ * English name for a language code, e.g. "de" -> "German"
+ */
+function languageName(code: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * One numbered entry of the digest prompt's article list
+ */
+function formatDigestArticle(article: ArticleForDigest, index: number) {
+  const lines = [
+    `${index + 1}. "${article.title}"${article.publisherName ? ` (${article.publisherName})` : ""}`,
+  ];
+
+  if (article.alsoCoveredBy?.length) {
+    lines.push(`Also covered by ${coverageList(article.alsoCoveredBy)}`);
+  }
+  if (article.developingSince) {
+    const since = article.developingSince.toLocaleDateString("en-US", {
+      month: "long",
+      day: "numeric",
+    });
+    lines.push(`Developing story, first reported ${since}`);
+  }
+  if (article.description) lines.push(article.description);
+  if (article.excerpt) lines.push(article.excerpt);
+
+  return lines.join("\n   ");
+}
+
+/**
+ * "A, B, C and 4 more" - the outlet count matters more than every name
+ */
+function coverageList(publishers: string[]): string {
+  const shown = publishers.slice(0, 3).join(", ");
+  const rest = publishers.length - 3;
+  return rest > 0 ? `${shown} and ${rest} more` : shown;
+}
+
 // ============================================
 // AI Image Generation
 // ============================================
@@ -179,9 +252,14 @@ export async function generateDigestImage(
   topicName?: string
 ): Promise<string> {
   // Create a prompt for the image based on the digest content
-  const promptResult = await generateText({
-    model: openai(DEFAULT_MODEL),
-    prompt: `Based on this tech news digest, write a short image prompt (max 50 words) for a cartoonish illustration.
+  const promptResult = await callUpstream(
+    OPENAI_UPSTREAM,
+    (abortSignal) =>
+      generateText({
+        model: openai(DEFAULT_MODEL),
+        maxRetries: 0,
+        abortSignal,
+        prompt: `Based on this tech news digest, write a short image prompt (max 50 words) for a cartoonish illustration.
 The image should visually represent the main themes without any text, words, letters, or numbers.
 
 Digest:
@@ -190,17 +268,27 @@ ${digestContent}
 ${topicName ? `Topic: ${topicName}` : ""}
 
 Image prompt:`,
-  });
+      }),
+    { timeoutMs: TEXT_TIMEOUT_MS }
+  );
 
   const imagePrompt = `illustration, no text or words: ${promptResult.text.trim()}. No text, labels, or letters anywhere in the image.`;
 
-  const response = await openaiClient.images.generate({
-    model: "dall-e-3",
-    prompt: imagePrompt,
-    n: 1,
-    size: "1792x1024",
-    quality: "standard",
-  });
+  const response = await callUpstream(
+    OPENAI_UPSTREAM,
+    (signal) =>
+      openaiClient.images.generate(
+        {
+          model: "dall-e-3",
+          prompt: imagePrompt,
+          n: 1,
+          size: "1792x1024",
+          quality: "standard",
+        },
+        { signal }
+      ),
+    { timeoutMs: IMAGE_TIMEOUT_MS, retries: 1 }
+  );
 
   const url = response.data?.[0]?.url;
   if (!url) {
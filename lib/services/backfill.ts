@@ -0,0 +1,382 @@
+/**
+ * Historical backfill
+ * Walks a date range in windows and pages through each source, saving a
+ * cursor after every request so an interrupted run resumes where it stopped
+ */
+
+import { db } from "@/db";
+import { backfills, type Backfill, type BackfillCursor } from "@/db/schema";
+import { and, desc, eq, lt, ne, or } from "drizzle-orm";
+import { generateAllDailyDigests } from "./digest";
+import {
+  emptyResult,
+  mergeFetchResult,
+  storeFetchedArticles,
+  type FetchResult,
+} from "./fetcher";
+import { reserveRequest } from "./quota";
+import { finishFetchRun, startFetchRun } from "./runs";
+import {
+  getDailyQuota,
+  getEnabledSources,
+  isQuotaError,
+  NEWS_SOURCES,
+  type SourceName,
+} from "./sources";
+
+// ============================================
+// Types
+// ============================================
+
+export interface BackfillOptions {
+  from: Date;
+  to: Date;
+  sources?: SourceName[]; // Defaults to every enabled source with history
+  windowHours?: number;
+  pageSize?: number;
+  maxPagesPerWindow?: number;
+  generateDigests?: boolean; // Generate missing daily digests afterwards
+}
+
+export interface RunBackfillOptions {
+  maxRequests?: number; // Provider requests allowed in this invocation
+  useAI?: boolean;
+  extractContent?: boolean;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// A run that hasn't saved progress for this long is assumed to have died
+const STALE_RUN_MS = 10 * 60 * 1000;
+
+// Only the most recent errors are kept on the row
+const MAX_STORED_ERRORS = 50;
+
+// ============================================
+// Create
+// ============================================
+
+/**
+ * Create a backfill for a date range
+ */
+export async function createBackfill(
+  options: BackfillOptions
+): Promise<Backfill> {
+  const {
+    from,
+    windowHours = 24,
+    pageSize = 50,
+    maxPagesPerWindow = 5,
+    generateDigests = false,
+  } = options;
+
+  // Nothing to fetch from the future
+  const to = new Date(Math.min(options.to.getTime(), Date.now()));
+
+  if (from >= to) {
+    throw new Error("Backfill range must start before it ends");
+  }
+
+  const sources = getEnabledSources(options.sources).filter(
+    (s) => s.config.supportsHistory
+  );
+
+  if (sources.length === 0) {
+    throw new Error("No enabled news source supports historical fetches");
+  }
+
+  const [backfill] = await db
+    .insert(backfills)
+    .values({
+      from,
+      to,
+      sources: sources.map((s) => s.name),
+      windowHours,
+      pageSize,
+      maxPagesPerWindow,
+      generateDigests,
+      cursor: {
+        phase: "fetch",
+        windowStart: from.toISOString(),
+        sourceIndex: 0,
+        page: 1,
+        digestDay: null,
+      },
+    })
+    .returning();
+
+  return backfill;
+}
+
+// ============================================
+// Run
+// ============================================
+
+/**
+ * Run (or resume) a backfill until it completes, its request budget for this
+ * invocation runs out, or a provider's daily quota is exhausted
+ */
+export async function runBackfill(
+  id: string,
+  options: RunBackfillOptions = {}
+): Promise<Backfill> {
+  const { maxRequests = 50, useAI = true, extractContent = true } = options;
+
+  const backfill = await claimBackfill(id);
+  if (backfill.status === "completed") {
+    return backfill;
+  }
+
+  // Each invocation shows up in the fetch run history
+  const run = emptyResult();
+  const runId = await startFetchRun("backfill", {
+    providers: backfill.sources,
+    backfillId: id,
+  });
+
+  try {
+    const finished = await advanceBackfill(
+      backfill,
+      { maxRequests, useAI, extractContent },
+      run
+    );
+    if (finished.status !== "completed" && finished.lastError) {
+      run.errors.push(finished.lastError);
+    }
+    return finished;
+  } catch (error) {
+    // Storing or digest generation failed - release the claim so the
+    // backfill can be resumed, keeping the cursor of the last saved step
+    const message = error instanceof Error ? error.message : "Unknown error";
+    run.errors.push(message);
+    await db
+      .update(backfills)
+      .set({ status: "failed", lastError: message, updatedAt: new Date() })
+      .where(eq(backfills.id, id));
+    throw error;
+  } finally {
+    await finishFetchRun(runId, run);
+  }
+}
+
+/**
+ * Work through a claimed backfill from its saved cursor
+ */
+async function advanceBackfill(
+  backfill: Backfill,
+  options: Required<RunBackfillOptions>,
+  run: FetchResult
+): Promise<Backfill> {
+  const { id } = backfill;
+  const { maxRequests, useAI, extractContent } = options;
+
+  const state = { ...backfill, errors: [...backfill.errors] };
+  let requests = 0;
+
+  const save = async (patch: Partial<Backfill> = {}) => {
+    Object.assign(state, patch);
+    await db
+      .update(backfills)
+      .set({
+        status: state.status,
+        cursor: state.cursor,
+        requestsMade: state.requestsMade,
+        fetched: state.fetched,
+        inserted: state.inserted,
+        duplicates: state.duplicates,
+        digestsGenerated: state.digestsGenerated,
+        errors: state.errors.slice(-MAX_STORED_ERRORS),
+        lastError: state.lastError,
+        completedAt: state.completedAt,
+        updatedAt: new Date(),
+      })
+      .where(eq(backfills.id, id));
+    return state;
+  };
+
+  // ---- Fetch phase ----
+  while (
+    state.cursor.phase === "fetch" &&
+    new Date(state.cursor.windowStart) < state.to
+  ) {
+    if (requests >= maxRequests) {
+      return save({
+        status: "paused",
+        lastError: `Request budget for this run (${maxRequests}) used up`,
+      });
+    }
+
+    const cursor = state.cursor;
+    const windowStart = new Date(cursor.windowStart);
+    const windowEnd = new Date(
+      Math.min(
+        windowStart.getTime() + state.windowHours * HOUR_MS,
+        state.to.getTime()
+      )
+    );
+    const source =
+      NEWS_SOURCES[state.sources[cursor.sourceIndex] as SourceName];
+
+    // Shares the daily budget with regular fetches
+    if (!(await reserveRequest(source))) {
+      return save({
+        status: "paused",
+        lastError: `${source.label} daily quota (${getDailyQuota(source)}) exhausted`,
+      });
+    }
+
+    let page;
+    try {
+      requests++;
+      page = await source.fetchArticles({
+        from: windowStart,
+        to: windowEnd,
+        max: state.pageSize,
+        page: cursor.page,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      // The cursor is left on this page so a resume retries it
+      return save({
+        status: isQuotaError(error) ? "paused" : "failed",
+        requestsMade: state.requestsMade + 1,
+        lastError: `${source.label}: ${message}`,
+      });
+    }
+
+    const stored = await storeFetchedArticles(page.articles, source.name, {
+      useAI,
+      extractContent,
+    });
+    mergeFetchResult(run, stored);
+
+    const pageSize = Math.min(state.pageSize, source.config.maxPerRequest);
+    const hasMore =
+      page.articles.length >= pageSize &&
+      cursor.page < state.maxPagesPerWindow &&
+      (page.totalResults === null ||
+        cursor.page * pageSize < page.totalResults);
+
+    let next: BackfillCursor;
+    if (hasMore) {
+      next = { ...cursor, page: cursor.page + 1 };
+    } else if (cursor.sourceIndex + 1 < state.sources.length) {
+      next = { ...cursor, sourceIndex: cursor.sourceIndex + 1, page: 1 };
+    } else {
+      next = {
+        ...cursor,
+        windowStart: windowEnd.toISOString(),
+        sourceIndex: 0,
+        page: 1,
+      };
+    }
+
+    await save({
+      cursor: next,
+      requestsMade: state.requestsMade + 1,
+      fetched: state.fetched + stored.fetched,
+      inserted: state.inserted + stored.inserted,
+      duplicates: state.duplicates + stored.duplicates,
+      errors: [...state.errors, ...stored.errors],
+    });
+  }
+
+  // ---- Digest phase ----
+  if (state.generateDigests) {
+    if (state.cursor.phase === "fetch") {
+      const firstDay = new Date(state.from);
+      firstDay.setHours(0, 0, 0, 0);
+      await save({
+        cursor: {
+          ...state.cursor,
+          phase: "digests",
+          digestDay: firstDay.toISOString(),
+        },
+      });
+    }
+
+    while (
+      state.cursor.digestDay &&
+      new Date(state.cursor.digestDay) <= state.to
+    ) {
+      const day = new Date(state.cursor.digestDay);
+
+      // Existing digests are kept, so this only fills the gaps
+      const digestResult = await generateAllDailyDigests({ date: day });
+      const generated = [digestResult.global, ...digestResult.byTopic].filter(
+        (d) => d?.isNew
+      ).length;
+
+      await save({
+        cursor: {
+          ...state.cursor,
+          digestDay: new Date(day.getTime() + DAY_MS).toISOString(),
+        },
+        digestsGenerated: state.digestsGenerated + generated,
+        errors: [...state.errors, ...digestResult.errors],
+      });
+    }
+  }
+
+  return save({
+    status: "completed",
+    lastError: null,
+    completedAt: new Date(),
+  });
+}
+
+/**
+ * Mark a backfill as running, unless another live run already has it
+ */
+async function claimBackfill(id: string): Promise<Backfill> {
+  const [claimed] = await db
+    .update(backfills)
+    .set({ status: "running", updatedAt: new Date() })
+    .where(
+      and(
+        eq(backfills.id, id),
+        ne(backfills.status, "completed"),
+        or(
+          ne(backfills.status, "running"),
+          lt(backfills.updatedAt, new Date(Date.now() - STALE_RUN_MS))
+        )
+      )
+    )
+    .returning();
+
+  if (claimed) {
+    return claimed;
+  }
+
+  const existing = await getBackfill(id);
+  if (!existing) {
+    throw new Error("Backfill not found");
+  }
+  if (existing.status === "completed") {
+    return existing;
+  }
+  throw new Error("Backfill is already running");
+}
+
+// ============================================
+// Queries
+// ============================================
+
+export async function getBackfill(id: string) {
+  const backfill = await db.query.backfills.findFirst({
+    where: eq(backfills.id, id),
+  });
+  return backfill ?? null;
+}
+
+export async function listBackfills(limit = 20) {
+  return db.query.backfills.findMany({
+    orderBy: [desc(backfills.createdAt)],
+    limit,
+  });
+}
@@ -0,0 +1,278 @@
+/**
+ * Canonical URL resolution
+ * Unwraps known redirectors, follows redirects and reads the page's
+ * canonical link, so AMP pages, mobile subdomains, redirect links and
+ * syndicated copies dedup against the original article
+ */
+
+import { parseHTML } from "linkedom";
+import { assertPublicUrl } from "./hosts";
+import { resilientFetch } from "./resilience";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * One HTTP hop - redirects are not followed, so recorded fixtures can
+ * stand in for the network
+ */
+export interface FetchedPage {
+  status: number;
+  location: string | null; // Location header of a redirect
+  html: string | null; // Body of a 2xx HTML response
+}
+
+export type PageFetcher = (url: string) => Promise<FetchedPage>;
+
+export interface CanonicalUrl {
+  url: string; // Canonical URL, or the best we could do
+  page: { url: string; html: string } | null; // Final page, when it was read
+  error: string | null; // Why the page couldn't be read
+}
+
+// ============================================
+// Redirectors
+// ============================================
+
+// Wrappers that carry the target URL in a query param
+const QUERY_REDIRECTORS: { host: RegExp; path?: RegExp; params: string[] }[] = [
+  { host: /(^|\.)google\.[a-z.]+$/, path: /^\/url$/, params: ["url", "q"] },
+  { host: /^l\.facebook\.com$/, path: /^\/l\.php$/, params: ["u"] },
+  { host: /^lm\.facebook\.com$/, path: /^\/l\.php$/, params: ["u"] },
+  { host: /^out\.reddit\.com$/, params: ["url"] },
+  { host: /^slack-redir\.net$/, path: /^\/link$/, params: ["url"] },
+  { host: /^t\.umblr\.com$/, path: /^\/redirect$/, params: ["z"] },
+  { host: /^(www\.)?linkedin\.com$/, path: /^\/redir\//, params: ["url"] },
+];
+
+function isHttpUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+/**
+ * Target of a Google News article link, when it's embedded in the ID
+ * Older IDs ("CBMi...") are base64 protobuf holding the URL; newer ones
+ * are opaque and have to be followed
+ */
+function decodeGoogleNewsId(id: string): string | null {
+  const decoded = Buffer.from(id, "base64url").toString("latin1");
+  const match = decoded.match(/https?:\/\/[\x21-\x7e]+/);
+  return match ? match[0] : null;
+}
+
+/**
+ * The URL a known redirector points to, or null if it isn't one
+ */
+export function unwrapRedirector(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const host = parsed.hostname.toLowerCase();
+
+  for (const redirector of QUERY_REDIRECTORS) {
+    if (!redirector.host.test(host)) continue;
+    if (redirector.path && !redirector.path.test(parsed.pathname)) continue;
+
+    for (const param of redirector.params) {
+      const target = parsed.searchParams.get(param);
+      if (target && isHttpUrl(target)) return target;
+    }
+  }
+
+  // Google's AMP viewer and the AMP cache: /amp/s/example.com/story
+  if (
+    (/(^|\.)google\.[a-z.]+$/.test(host) &&
+      parsed.pathname.startsWith("/amp/")) ||
+    host.endsWith(".cdn.ampproject.org")
+  ) {
+    const match = parsed.pathname.match(/\/(?:amp|c)\/(s\/)?(.+)$/);
+    if (match) {
+      return `${match[1] ? "https" : "http"}://${match[2]}${parsed.search}`;
+    }
+  }
+
+  if (host === "news.google.com") {
+    const id = parsed.pathname.match(/\/articles\/([A-Za-z0-9_-]+)/)?.[1];
+    return id ? decodeGoogleNewsId(id) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Unwrap redirectors until the URL isn't one (they're sometimes nested)
+ */
+function unwrapAll(url: string): string {
+  let current = url;
+  for (let i = 0; i < 5; i++) {
+    const target = unwrapRedirector(current);
+    if (!target || target === current) break;
+    current = target;
+  }
+  return current;
+}
+
+// ============================================
+// Canonical Links
+// ============================================
+
+/**
+ * Read `<link rel="canonical">`, falling back to `og:url`
+ * Pure function of the HTML so it can be run against saved pages
+ */
+export function canonicalFromHtml(
+  html: string,
+  pageUrl: string
+): string | null {
+  const { document } = parseHTML(html);
+
+  const candidates = [
+    document.querySelector('link[rel~="canonical"]')?.getAttribute("href"),
+    document.querySelector('meta[property="og:url"]')?.getAttribute("content"),
+  ];
+
+  for (const candidate of candidates) {
+    const url = acceptCanonical(candidate?.trim(), pageUrl);
+    if (url) return url;
+  }
+  return null;
+}
+
+/**
+ * Resolve a canonical candidate against the page, rejecting ones that
+ * can't be right - non-http(s), or a site's home page for an article
+ */
+function acceptCanonical(
+  candidate: string | null | undefined,
+  pageUrl: string
+): string | null {
+  if (!candidate) return null;
+
+  let resolved: URL;
+  let page: URL;
+  try {
+    resolved = new URL(candidate, pageUrl);
+    page = new URL(pageUrl);
+  } catch {
+    return null;
+  }
+
+  if (!/^https?:$/.test(resolved.protocol)) return null;
+  if (resolved.pathname === "/" && page.pathname !== "/") return null;
+
+  resolved.hash = "";
+  return resolved.toString();
+}
+
+// ============================================
+// Resolution
+// ============================================
+
+const MAX_REDIRECTS = 5;
+
+const CANONICAL_TIMEOUT_MS = 10_000;
+
+const CANONICAL_USER_AGENT =
+  "Mozilla/5.0 (compatible; NewsContentExtractor/1.0)";
+
+/**
+ * Fetch one hop over the network
+ * Shares the per-host "page:" breaker with extraction. Every hop is
+ * checked, as article URLs come from feeds, providers and the webhook.
+ */
+export const fetchPage: PageFetcher = async (url) => {
+  await assertPublicUrl(url);
+
+  const response = await resilientFetch(
+    `page:${new URL(url).hostname}`,
+    url,
+    {
+      headers: {
+        "User-Agent": CANONICAL_USER_AGENT,
+        Accept: "text/html,application/xhtml+xml",
+      },
+      redirect: "manual",
+    },
+    { timeoutMs: CANONICAL_TIMEOUT_MS, retries: 0 }
+  );
+
+  const contentType = response.headers.get("content-type") ?? "";
+  const isHtml = response.ok && (!contentType || contentType.includes("html"));
+
+  // Free the connection when the body isn't needed (redirects, non-HTML)
+  if (!isHtml) {
+    await response.body?.cancel();
+  }
+
+  return {
+    status: response.status,
+    location: response.headers.get("location"),
+    html: isHtml ? await response.text() : null,
+  };
+};
+
+/**
+ * Resolve the canonical URL of an article
+ * Never throws - when the page can't be read, the unwrapped URL (or the
+ * last redirect reached) is returned with the error
+ */
+export async function resolveCanonicalUrl(
+  url: string,
+  options: { fetchPage?: PageFetcher } = {}
+): Promise<CanonicalUrl> {
+  const fetcher = options.fetchPage ?? fetchPage;
+  let current = unwrapAll(url);
+
+  try {
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const page = await fetcher(current);
+
+      if (page.status >= 300 && page.status < 400) {
+        if (!page.location) {
+          return {
+            url: current,
+            page: null,
+            error: "Redirect without Location",
+          };
+        }
+        current = unwrapAll(new URL(page.location, current).toString());
+        continue;
+      }
+
+      if (page.status < 200 || page.status >= 300) {
+        return {
+          url: current,
+          page: null,
+          error: `Page request failed (${page.status})`,
+        };
+      }
+
+      if (!page.html) {
+        return { url: current, page: null, error: null };
+      }
+
+      return {
+        url: canonicalFromHtml(page.html, current) ?? current,
+        page: { url: current, html: page.html },
+        error: null,
+      };
+    }
+
+    return { url: current, page: null, error: "Too many redirects" };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { url: current, page: null, error: message };
+  }
+}
+
+/**
+ * Canonical URL without touching the network - redirectors only
+ */
+export function staticCanonicalUrl(url: string): CanonicalUrl {
+  return { url: unwrapAll(url), page: null, error: null };
+}
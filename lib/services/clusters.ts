@@ -0,0 +1,148 @@
+/**
+ * Story clusters
+ * Groups articles covering the same event - several outlets on one
+ * announcement, rewrites of a wire story - so lists and digests can show
+ * each story once
+ */
+
+import { db } from "@/db";
+import { articles, storyClusters } from "@/db/schema";
+import { asc, eq } from "drizzle-orm";
+import { groupArticles, ungroupedArticleIds, type Grouping } from "./grouping";
+
+// ============================================
+// Types
+// ============================================
+
+export interface ClusterResult {
+  checked: number; // New articles compared against the window
+  clustered: number; // Of those, joined to or started a cluster
+  created: number; // Clusters started
+}
+
+// ============================================
+// Constants
+// ============================================
+
+// Coverage of one event published this far apart still clusters
+export const CLUSTER_WINDOW_HOURS = 36;
+
+// TF-IDF cosine of title + description needed to join a cluster
+export const CLUSTER_SIMILARITY = 0.45;
+
+// Most articles around the new ones compared per run
+const MAX_WINDOW_ARTICLES = 5000;
+
+// ============================================
+// Clustering
+// ============================================
+
+const clustering: Grouping = {
+  field: "clusterId",
+  windowMs: CLUSTER_WINDOW_HOURS * 60 * 60 * 1000,
+  threshold: CLUSTER_SIMILARITY,
+  maxWindowArticles: MAX_WINDOW_ARTICLES,
+
+  create: async (count) => {
+    const now = new Date();
+    const started = await db
+      .insert(storyClusters)
+      .values(
+        Array.from({ length: count }, () => ({
+          firstPublishedAt: now,
+          lastPublishedAt: now,
+        }))
+      )
+      .returning({ id: storyClusters.id });
+    return started.map((c) => c.id);
+  },
+
+  // Lead (earliest) article, member count and publishers
+  update: async (clusterId, members) => {
+    const lead = members[0];
+    const publishers = Array.from(
+      new Set(
+        members.flatMap((m) => (m.publisherName ? [m.publisherName] : []))
+      )
+    );
+
+    await db
+      .update(storyClusters)
+      .set({
+        leadArticleId: lead.id,
+        memberCount: members.length,
+        publishers,
+        firstPublishedAt: lead.publishedAt,
+        lastPublishedAt: members[members.length - 1].publishedAt,
+        updatedAt: new Date(),
+      })
+      .where(eq(storyClusters.id, clusterId));
+  },
+
+  remove: async (clusterId) => {
+    await db.delete(storyClusters).where(eq(storyClusters.id, clusterId));
+  },
+};
+
+/**
+ * Put new articles into clusters with similar ones published around the
+ * same time, starting a cluster when the closest match has none
+ * Articles already in a cluster are skipped.
+ */
+export async function clusterArticles(
+  articleIds: string[]
+): Promise<ClusterResult> {
+  const result = await groupArticles(articleIds, clustering);
+  return {
+    checked: result.checked,
+    clustered: result.grouped,
+    created: result.created,
+  };
+}
+
+/**
+ * Cluster the unclustered articles of the last N hours - for articles
+ * stored before clustering existed
+ */
+export async function clusterRecentArticles(
+  hours = CLUSTER_WINDOW_HOURS
+): Promise<ClusterResult> {
+  return clusterArticles(await ungroupedArticleIds("clusterId", hours));
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * A cluster with its articles, earliest first
+ */
+export async function getCluster(clusterId: string) {
+  const cluster = await db.query.storyClusters.findFirst({
+    where: eq(storyClusters.id, clusterId),
+    with: {
+      articles: {
+        orderBy: [asc(articles.publishedAt)],
+        columns: {
+          id: true,
+          title: true,
+          url: true,
+          publisherName: true,
+          publishedAt: true,
+        },
+      },
+    },
+  });
+
+  return cluster ?? null;
+}
+
+/**
+ * Publishers in a cluster other than the given one
+ */
+export function otherPublishers(
+  cluster: { publishers: string[] } | null,
+  publisherName: string | null
+): string[] {
+  return cluster?.publishers.filter((p) => p !== publisherName) ?? [];
+}
@@ -0,0 +1,98 @@
+/**
+ * Scheduled tasks
+ * Fetch and digest generation for the /api/cron endpoints, guarded by a
+ * shared secret and a lease so overlapping invocations don't double up
+ */
+
+import { timingSafeEqual } from "crypto";
+import {
+  generateAllDailyDigests,
+  type GenerateAllDigestsResult,
+} from "./digest";
+import { fetchAndStoreArticles, type FetchResult } from "./fetcher";
+import { withLease } from "./lease";
+
+// ============================================
+// Types
+// ============================================
+
+export type CronTaskResult<T> =
+  | { status: "completed"; startedAt: Date; finishedAt: Date; result: T }
+  | { status: "skipped"; reason: string; retryAfter: Date | null };
+
+// ============================================
+// Auth
+// ============================================
+
+/**
+ * Check the request carries `Authorization: Bearer <CRON_SECRET>`
+ * (the header Vercel Cron sends). Throws when no secret is configured.
+ */
+export function isAuthorizedCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    throw new Error("CRON_SECRET environment variable is not set");
+  }
+
+  const header = request.headers.get("authorization") ?? "";
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(header);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// ============================================
+// Tasks
+// ============================================
+
+// Longer than a run should ever take, so a crashed run frees up eventually
+const FETCH_LEASE_MS = 15 * 60 * 1000;
+const DIGEST_LEASE_MS = 15 * 60 * 1000;
+
+async function runTask<T>(
+  name: string,
+  ttlMs: number,
+  task: () => Promise<T>
+): Promise<CronTaskResult<T>> {
+  const startedAt = new Date();
+  const outcome = await withLease(name, ttlMs, task);
+
+  if (!outcome.acquired) {
+    return {
+      status: "skipped",
+      reason: `${name} is already running`,
+      retryAfter: outcome.expiresAt,
+    };
+  }
+
+  return {
+    status: "completed",
+    startedAt,
+    finishedAt: new Date(),
+    result: outcome.value,
+  };
+}
+
+/**
+ * Fetch from every enabled source and feed
+ */
+export async function runScheduledFetch(): Promise<
+  CronTaskResult<FetchResult>
+> {
+  return runTask("cron:fetch", FETCH_LEASE_MS, () =>
+    fetchAndStoreArticles({ trigger: "cron" })
+  );
+}
+
+/**
+ * Generate today's global and topic digests
+ * Existing digests are kept unless forceRegenerate is set
+ */
+export async function runScheduledDigests(
+  options: { forceRegenerate?: boolean } = {}
+): Promise<CronTaskResult<GenerateAllDigestsResult>> {
+  return runTask("cron:digests", DIGEST_LEASE_MS, () =>
+    generateAllDailyDigests({ forceRegenerate: options.forceRegenerate })
+  );
+}
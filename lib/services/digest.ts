@@ -1,8 +1,72 @@
 import { db } from "@/db";
-import { articles, topics, digests } from "@/db/schema";
-import { eq, gte, and, desc, isNull, SQL } from "drizzle-orm";
-import { generateDigest, type ArticleForDigest } from "./ai";
+import {
+  articles,
+  topics,
+  digests,
+  type Article,
+  type Story,
+} from "@/db/schema";
+import { eq, gte, lt, and, desc, isNull, SQL } from "drizzle-orm";
+import {
+  generateDigest,
+  generateDigestImage,
+  type ArticleForDigest,
+} from "./ai";
+import { labeledWith } from "./labels";
+
+// Characters of extracted full text given to the digest per article
+const DIGEST_EXCERPT_LENGTH = 300;
+
+function truncate(text: string | null, length: number): string | undefined {
+  if (!text) return undefined;
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > length ? `${flat.slice(0, length)}…` : flat;
+}
+
+// Articles read to build a digest, before grouping into stories
+const MAX_DIGEST_CANDIDATES = 500;
+
+type DigestArticle = Article & { story: Story | null };
+
+interface DigestStory {
+  lead: DigestArticle; // Earliest article
+  publishers: string[]; // Distinct, lead's first
+  articleCount: number;
+  latestAt: Date;
+}
 
+/**
+ * Group articles into stories by cluster, most widely covered first, so
+ * the digest sees each event once with how many outlets carried it
+ */
+function groupStories(items: DigestArticle[]): DigestStory[] {
+  const groups = new Map<string, DigestArticle[]>();
+  for (const item of items) {
+    const key = item.clusterId ?? item.id;
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+
+  return Array.from(groups.values())
+    .map((group) => {
+      const sorted = [...group].sort(
+        (a, b) => a.publishedAt.getTime() - b.publishedAt.getTime()
+      );
+      const publishers = new Set(
+        sorted.flatMap((a) => (a.publisherName ? [a.publisherName] : []))
+      );
+      return {
+        lead: sorted[0],
+        publishers: Array.from(publishers),
+        articleCount: group.length,
+        latestAt: sorted[sorted.length - 1].publishedAt,
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.articleCount - a.articleCount ||
+        b.latestAt.getTime() - a.latestAt.getTime()
+    );
+}
 
 export interface GenerateDigestResult {
   digestId: string;
@@ -29,9 +93,18 @@ export async function generateDailyDigest(options: {
   date?: Date;
   topicId?: string | null;
   forceRegenerate?: boolean;
-  maxArticles?: number; // Max articles to include in digest (default: all from last 24h, up to 70)
+  maxArticles?: number; // Max stories to include in digest (default: all from last 24h, up to 70)
+  withImage?: boolean; // Set false to add the image later with attachDigestImage
+  language?: string | null; // Only articles in this language, written in it (default: all)
 }): Promise<GenerateDigestResult | null> {
-  const { date = new Date(), topicId = null, forceRegenerate = false, maxArticles = 70 } = options;
+  const {
+    date = new Date(),
+    topicId = null,
+    forceRegenerate = false,
+    maxArticles = 70,
+    withImage = true,
+    language = null,
+  } = options;
 
   // Normalize date to start of day
   const digestDate = new Date(date);
@@ -42,6 +115,7 @@ export async function generateDailyDigest(options: {
     where: and(
       eq(digests.type, "daily"),
       topicId ? eq(digests.topicId, topicId) : isNull(digests.topicId),
+      language ? eq(digests.language, language) : isNull(digests.language),
       eq(digests.date, digestDate)
     ),
   });
@@ -55,24 +129,37 @@ export async function generateDailyDigest(options: {
     };
   }
 
-  // Get articles from the last 24 hours
+  // Get articles from the previous day through the digest day
+  // The upper bound keeps past-day digests (e.g. from a backfill) to that day
   const since = new Date(digestDate);
   since.setHours(since.getHours() - 24);
+  const until = new Date(digestDate);
+  until.setHours(until.getHours() + 24);
 
-  const whereConditions = topicId
-    ? and(eq(articles.topicId, topicId), gte(articles.publishedAt, since))
-    : gte(articles.publishedAt, since);
+  const inRange = and(
+    gte(articles.publishedAt, since),
+    lt(articles.publishedAt, until)
+  );
 
   const recentArticles = await db.query.articles.findMany({
-    where: whereConditions,
+    where: and(
+      inRange,
+      topicId ? labeledWith(topicId) : undefined,
+      language ? eq(articles.language, language) : undefined
+    ),
     orderBy: [desc(articles.publishedAt)],
-    limit: maxArticles,
+    limit: MAX_DIGEST_CANDIDATES,
+    with: {
+      story: true,
+    },
   });
 
   if (recentArticles.length === 0) {
     return null;
   }
 
+  const stories = groupStories(recentArticles).slice(0, maxArticles);
+
   // Get topic name if topic-specific
   let topicName: string | undefined;
   if (topicId) {
@@ -82,18 +169,31 @@ export async function generateDailyDigest(options: {
     topicName = topic?.name;
   }
 
-  // Prepare articles for digest
-  const articlesForDigest: ArticleForDigest[] = recentArticles.map((a) => ({
-    title: a.title,
-    description: a.description || undefined,
-    publisherName: a.publisherName || undefined,
-    url: a.url,
-  }));
+  // One entry per story, told by its earliest article
+  const articlesForDigest: ArticleForDigest[] = stories.map(
+    ({ lead, publishers }) => ({
+      title: lead.title,
+      description: lead.description || undefined,
+      excerpt: lead.contentExtractedAt
+        ? truncate(lead.content, DIGEST_EXCERPT_LENGTH)
+        : undefined,
+      publisherName: lead.publisherName || undefined,
+      url: lead.url,
+      alsoCoveredBy: publishers.filter((p) => p !== lead.publisherName),
+      // Stories that started before this digest's window are follow-ups
+      developingSince:
+        lead.story && lead.story.firstPublishedAt < since
+          ? lead.story.firstPublishedAt
+          : undefined,
+    })
+  );
 
   // Generate digest with AI
   const digestResult = await generateDigest(articlesForDigest, {
     topicName,
     date: digestDate,
+    withImage,
+    language,
   });
 
   // Delete existing digest if regenerating
@@ -107,6 +207,7 @@ export async function generateDailyDigest(options: {
     .values({
       type: "daily",
       topicId,
+      language,
       date: digestDate,
       title: digestResult.title,
       content: digestResult.content,
@@ -118,7 +219,7 @@ export async function generateDailyDigest(options: {
   return {
     digestId: newDigest.id,
     title: newDigest.title || "Daily Digest",
-    articleCount: recentArticles.length,
+    articleCount: stories.reduce((sum, story) => sum + story.articleCount, 0),
     isNew: true,
   };
 }
@@ -126,11 +227,14 @@ export async function generateDailyDigest(options: {
 /**
  * Generate daily digests for all topics + global
  */
-export async function generateAllDailyDigests(options: {
-  date?: Date;
-  forceRegenerate?: boolean;
-} = {}): Promise<GenerateAllDigestsResult> {
-  const { date = new Date(), forceRegenerate = false } = options;
+export async function generateAllDailyDigests(
+  options: {
+    date?: Date;
+    forceRegenerate?: boolean;
+    language?: string | null;
+  } = {}
+): Promise<GenerateAllDigestsResult> {
+  const { date = new Date(), forceRegenerate = false, language } = options;
 
   const result: GenerateAllDigestsResult = {
     global: null,
@@ -144,6 +248,7 @@ export async function generateAllDailyDigests(options: {
       date,
       topicId: null,
       forceRegenerate,
+      language,
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -160,6 +265,7 @@ export async function generateAllDailyDigests(options: {
         date,
         topicId: topic.id,
         forceRegenerate,
+        language,
       });
 
       if (topicDigest) {
@@ -174,17 +280,49 @@ export async function generateAllDailyDigests(options: {
   return result;
 }
 
+/**
+ * Generate and store the image for a digest created without one
+ */
+export async function attachDigestImage(digestId: string): Promise<string> {
+  const digest = await db.query.digests.findFirst({
+    where: eq(digests.id, digestId),
+    with: {
+      topic: true,
+    },
+  });
+
+  if (!digest) {
+    throw new Error("Digest not found");
+  }
+  if (digest.imageUrl) {
+    return digest.imageUrl;
+  }
+
+  const imageUrl = await generateDigestImage(
+    digest.content,
+    digest.topic?.name
+  );
+
+  await db.update(digests).set({ imageUrl }).where(eq(digests.id, digestId));
+
+  return imageUrl;
+}
+
 /**
  * Get the latest digest (global or topic-specific)
+ * Without a language, the digest covering all languages
  * Orders by createdAt to get the most recent if multiple exist for same day
  */
-export async function getLatestDigest(topicId?: string | null) {
-  const whereConditions = topicId
-    ? and(eq(digests.type, "daily"), eq(digests.topicId, topicId))
-    : and(eq(digests.type, "daily"), isNull(digests.topicId));
-
+export async function getLatestDigest(
+  topicId?: string | null,
+  language?: string | null
+) {
   const digest = await db.query.digests.findFirst({
-    where: whereConditions,
+    where: and(
+      eq(digests.type, "daily"),
+      topicId ? eq(digests.topicId, topicId) : isNull(digests.topicId),
+      language ? eq(digests.language, language) : isNull(digests.language)
+    ),
     orderBy: [desc(digests.createdAt)],
     with: {
       topic: true,
@@ -200,9 +338,10 @@ export async function getLatestDigest(topicId?: string | null) {
 export async function getDigests(options: {
   type?: "daily" | "weekly";
   topicId?: string | null;
+  language?: string | null; // null = digests covering all languages
   limit?: number;
 }) {
-  const { type = "daily", topicId, limit = 10 } = options;
+  const { type = "daily", topicId, language, limit = 10 } = options;
 
   let whereConditions = eq(digests.type, type);
 
@@ -213,6 +352,13 @@ export async function getDigests(options: {
     ) as SQL<unknown>;
   }
 
+  if (language !== undefined) {
+    whereConditions = and(
+      whereConditions,
+      language ? eq(digests.language, language) : isNull(digests.language)
+    ) as SQL<unknown>;
+  }
+
   const results = await db.query.digests.findMany({
     where: whereConditions,
     orderBy: [desc(digests.date)],
@@ -0,0 +1,273 @@
+/**
+ * Tagging evaluation
+ * Runs the tagger over a hand-labeled gold set and reports per-topic
+ * precision, recall and F1, a confusion matrix of primary topics and how
+ * many articles the rules decided versus the AI - so a keyword change can
+ * be checked before it's saved
+ */
+
+import { z } from "zod";
+import defaultGoldSet from "@/lib/gold/tagging.json";
+import {
+  DEFAULT_RULES,
+  tagArticle,
+  tagArticleWithRules,
+  type AITagger,
+  type TagResult,
+  type TagSource,
+  type TopicRule,
+} from "./tagger";
+
+// ============================================
+// Gold Set
+// ============================================
+
+const goldArticleSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  content: z.string().optional(),
+  topics: z.array(z.string()), // Every correct topic, primary first; [] = none fits
+});
+
+export const goldSetSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  articles: z.array(goldArticleSchema).min(1),
+});
+
+export type GoldArticle = z.infer<typeof goldArticleSchema>;
+export type GoldSet = z.infer<typeof goldSetSchema>;
+
+/**
+ * Validate a gold set read from JSON
+ */
+export function parseGoldSet(json: unknown): GoldSet {
+  const parsed = goldSetSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`Invalid gold set: ${parsed.error.issues[0].message}`);
+  }
+
+  const ids = new Set<string>();
+  for (const article of parsed.data.articles) {
+    if (ids.has(article.id)) {
+      throw new Error(`Invalid gold set: duplicate article ID "${article.id}"`);
+    }
+    ids.add(article.id);
+  }
+  return parsed.data;
+}
+
+/**
+ * The gold set shipped with the app (lib/gold/tagging.json)
+ */
+export function loadDefaultGoldSet(): GoldSet {
+  return parseGoldSet(defaultGoldSet);
+}
+
+// ============================================
+// Types
+// ============================================
+
+// rules: tagArticleWithRules alone. pipeline: tagArticle with a stubbed AI
+// that abstains - what gets tagged without the AI (weak rule matches go
+// untagged), plus how many articles would be left to it.
+export type EvaluationMode = "rules" | "pipeline";
+
+export interface TopicMetrics {
+  topicSlug: string;
+  expected: number; // Articles labeled with the topic in the gold set
+  predicted: number; // Articles the tagger labeled with it
+  truePositives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface EvaluationMiss {
+  id: string;
+  title: string;
+  expected: string[];
+  predicted: string[]; // Primary first
+  source: TagSource | null; // null when untagged
+}
+
+export interface EvaluationReport {
+  goldSet: string;
+  mode: EvaluationMode;
+  total: number;
+  primaryAccuracy: number; // Share with the expected primary topic (or none)
+  macroF1: number; // Mean F1 over topics
+  microF1: number; // F1 over all labels pooled
+  topics: TopicMetrics[];
+  confusion: {
+    labels: string[]; // Topic slugs, then NO_TOPIC
+    matrix: number[][]; // [expected primary][predicted primary]
+  };
+  sources: Record<TagSource | typeof NO_TOPIC, number>; // Rule vs AI split
+  leftToAI: number; // Articles the rules passed to the AI (pipeline mode)
+  misses: EvaluationMiss[]; // Wrong primary topic or labels
+}
+
+// Row / column for articles without a topic
+export const NO_TOPIC = "none";
+
+// ============================================
+// Evaluation
+// ============================================
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+function f1(precision: number, recall: number): number {
+  return ratio(2 * precision * recall, precision + recall);
+}
+
+/**
+ * Tag every gold article and score the results
+ */
+export async function evaluateTagging(
+  goldSet: GoldSet,
+  options: { mode?: EvaluationMode; rules?: TopicRule[] } = {}
+): Promise<EvaluationReport> {
+  const { mode = "rules", rules = DEFAULT_RULES } = options;
+
+  // Abstains rather than guessing, so it can't inflate the scores
+  let leftToAI = 0;
+  const aiTagger: AITagger = async () => {
+    leftToAI++;
+    return {
+      topicSlug: null,
+      confidence: 0,
+      reasoning: "Stubbed AI (abstains)",
+    };
+  };
+
+  const results: { article: GoldArticle; result: TagResult }[] = [];
+  for (const article of goldSet.articles) {
+    const result =
+      mode === "rules"
+        ? tagArticleWithRules(
+            article.title,
+            article.description,
+            article.content,
+            rules
+          )
+        : await tagArticle(article.title, article.description, {
+            content: article.content,
+            rules,
+            aiTagger,
+          });
+    results.push({ article, result });
+  }
+
+  // Topics in rule order, then any only the gold set knows
+  const slugs = Array.from(
+    new Set([
+      ...rules.map((r) => r.slug),
+      ...goldSet.articles.flatMap((a) => a.topics),
+    ])
+  );
+  const labels = [...slugs, NO_TOPIC];
+  const matrix = labels.map(() => labels.map(() => 0));
+
+  const counts = new Map(
+    slugs.map((slug) => [slug, { expected: 0, predicted: 0, truePositives: 0 }])
+  );
+  const sources: EvaluationReport["sources"] = {
+    rule: 0,
+    ai: 0,
+    hint: 0,
+    [NO_TOPIC]: 0,
+  };
+  const misses: EvaluationMiss[] = [];
+  let primaryCorrect = 0;
+
+  for (const { article, result } of results) {
+    const expected = new Set(article.topics);
+    const predictedPrimary = result.topicSlug;
+    const predicted = new Set(
+      [predictedPrimary, ...result.labels.map((l) => l.topicSlug)].filter(
+        (slug): slug is string => slug !== null
+      )
+    );
+
+    for (const slug of expected) counts.get(slug)!.expected++;
+    for (const slug of predicted) {
+      const topic = counts.get(slug);
+      if (!topic) continue; // A topic the AI made up
+      topic.predicted++;
+      if (expected.has(slug)) topic.truePositives++;
+    }
+
+    const expectedRow = labels.indexOf(article.topics[0] ?? NO_TOPIC);
+    const predictedColumn = labels.indexOf(predictedPrimary ?? NO_TOPIC);
+    if (predictedColumn >= 0) matrix[expectedRow][predictedColumn]++;
+
+    sources[predictedPrimary ? result.source : NO_TOPIC]++;
+
+    const primaryMatches =
+      (predictedPrimary ?? NO_TOPIC) === (article.topics[0] ?? NO_TOPIC);
+    if (primaryMatches) primaryCorrect++;
+
+    const labelsMatch =
+      predicted.size === expected.size &&
+      Array.from(predicted).every((slug) => expected.has(slug));
+    if (!primaryMatches || !labelsMatch) {
+      misses.push({
+        id: article.id,
+        title: article.title,
+        expected: article.topics,
+        predicted: Array.from(predicted),
+        source: predictedPrimary ? result.source : null,
+      });
+    }
+  }
+
+  const topics: TopicMetrics[] = slugs.map((slug) => {
+    const { expected, predicted, truePositives } = counts.get(slug)!;
+    const precision = ratio(truePositives, predicted);
+    const recall = ratio(truePositives, expected);
+    return {
+      topicSlug: slug,
+      expected,
+      predicted,
+      truePositives,
+      precision,
+      recall,
+      f1: f1(precision, recall),
+    };
+  });
+
+  // Topics nobody expected or predicted say nothing about quality
+  const scored = topics.filter((t) => t.expected > 0 || t.predicted > 0);
+  const pooled = scored.reduce(
+    (sum, t) => ({
+      truePositives: sum.truePositives + t.truePositives,
+      expected: sum.expected + t.expected,
+      predicted: sum.predicted + t.predicted,
+    }),
+    { truePositives: 0, expected: 0, predicted: 0 }
+  );
+
+  return {
+    goldSet: goldSet.name,
+    mode,
+    total: results.length,
+    primaryAccuracy: ratio(primaryCorrect, results.length),
+    macroF1: ratio(
+      scored.reduce((sum, t) => sum + t.f1, 0),
+      scored.length
+    ),
+    microF1: f1(
+      ratio(pooled.truePositives, pooled.predicted),
+      ratio(pooled.truePositives, pooled.expected)
+    ),
+    topics,
+    confusion: { labels, matrix },
+    sources,
+    leftToAI,
+    misses,
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * Full-text article extraction
+ * Downloads the article page and pulls out the main content, readability-style
+ */
+
+import { Readability } from "@mozilla/readability";
+import { parseHTML } from "linkedom";
+import { sql } from "drizzle-orm";
+import { db } from "@/db";
+import { extractionFailures } from "@/db/schema";
+import { assertPublicUrl } from "./hosts";
+import { resilientFetch } from "./resilience";
+
+// ============================================
+// Types
+// ============================================
+
+export interface ExtractedArticle {
+  title: string | null;
+  byline: string | null;
+  leadImageUrl: string | null;
+  text: string; // Paragraphs separated by blank lines
+  wordCount: number;
+}
+
+// ============================================
+// Extraction
+// ============================================
+
+// Pages with less readable text than this are treated as failures
+// (paywalls, consent walls, video-only pages)
+const MIN_WORD_COUNT = 50;
+
+const BLOCK_SELECTOR = "p, h1, h2, h3, h4, h5, h6, li, blockquote, pre";
+
+function metaContent(document: Document, selectors: string[]): string | null {
+  for (const selector of selectors) {
+    const value = document.querySelector(selector)?.getAttribute("content");
+    if (value?.trim()) return value.trim();
+  }
+  return null;
+}
+
+function resolveUrl(value: string | null, baseUrl: string): string | null {
+  if (!value) return null;
+  try {
+    return new URL(value, baseUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Turn readability's cleaned HTML into plain text, one block per paragraph
+ */
+function htmlToText(html: string): string {
+  const { document } = parseHTML(
+    `<!DOCTYPE html><html><body>${html}</body></html>`
+  );
+
+  const blocks = Array.from(document.querySelectorAll(BLOCK_SELECTOR))
+    // Skip blocks nested in another block (e.g. <p> inside <li>)
+    .filter((el) => !el.parentElement?.closest(BLOCK_SELECTOR))
+    .map((el) => (el.textContent ?? "").replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  if (blocks.length === 0) {
+    return (document.body.textContent ?? "").replace(/\s+/g, " ").trim();
+  }
+
+  return blocks.join("\n\n");
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Extract the main content of an article page
+ * Pure function of the HTML so it can be run against saved pages
+ */
+export function extractArticle(
+  html: string,
+  url: string
+): ExtractedArticle | null {
+  const { document } = parseHTML(html);
+
+  // Meta tags are read first - readability mutates the document
+  const leadImage = metaContent(document, [
+    'meta[property="og:image"]',
+    'meta[name="twitter:image"]',
+    'meta[property="og:image:url"]',
+  ]);
+  const metaAuthor = metaContent(document, [
+    'meta[name="author"]',
+    'meta[property="article:author"]',
+  ]);
+
+  const parsed = new Readability(document).parse();
+
+  if (!parsed?.content) {
+    return null;
+  }
+
+  const text = htmlToText(parsed.content);
+  const wordCount = countWords(text);
+
+  if (wordCount < MIN_WORD_COUNT) {
+    return null;
+  }
+
+  return {
+    title: parsed.title?.trim() || null,
+    byline: parsed.byline?.trim() || metaAuthor,
+    leadImageUrl: resolveUrl(leadImage, url),
+    text,
+    wordCount,
+  };
+}
+
+// ============================================
+// Client
+// ============================================
+
+const EXTRACT_TIMEOUT_MS = 10_000;
+
+const EXTRACT_USER_AGENT = "Mozilla/5.0 (compatible; NewsContentExtractor/1.0)";
+
+const MAX_REDIRECTS = 5;
+
+/**
+ * Download an article page and extract its content
+ * Throws when the page can't be fetched or has no readable content
+ */
+export async function extractFromUrl(url: string): Promise<ExtractedArticle> {
+  // Redirects are followed by hand so every hop gets the public host check
+  let current = url;
+  let response: Response;
+  for (let hop = 0; ; hop++) {
+    await assertPublicUrl(current);
+
+    // Best effort: no retries, but a host that keeps failing is skipped
+    response = await resilientFetch(
+      `page:${new URL(current).hostname}`,
+      current,
+      {
+        headers: {
+          "User-Agent": EXTRACT_USER_AGENT,
+          Accept: "text/html,application/xhtml+xml",
+        },
+        redirect: "manual",
+      },
+      { timeoutMs: EXTRACT_TIMEOUT_MS, retries: 0 }
+    );
+
+    const location =
+      response.status >= 300 && response.status < 400
+        ? response.headers.get("location")
+        : null;
+    if (!location) break;
+
+    await response.body?.cancel();
+    if (hop >= MAX_REDIRECTS) {
+      throw new Error("Too many redirects");
+    }
+    current = new URL(location, current).toString();
+  }
+
+  if (!response.ok) {
+    throw new Error(`Article request failed (${response.status})`);
+  }
+
+  const contentType = response.headers.get("content-type") ?? "";
+  if (contentType && !contentType.includes("html")) {
+    throw new Error(`Not an HTML page (${contentType})`);
+  }
+
+  const html = await response.text();
+  const extracted = extractArticle(html, current);
+
+  if (!extracted) {
+    throw new Error("No readable content found");
+  }
+
+  return extracted;
+}
+
+// ============================================
+// Failure Tracking
+// ============================================
+
+/**
+ * Record a failed extraction against the article's domain
+ */
+export async function recordExtractionFailure(
+  url: string,
+  error: string
+): Promise<void> {
+  let domain: string;
+  try {
+    domain = new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return;
+  }
+
+  await db
+    .insert(extractionFailures)
+    .values({
+      domain,
+      failureCount: 1,
+      lastError: error,
+      lastUrl: url,
+      lastFailedAt: new Date(),
+    })
+    .onConflictDoUpdate({
+      target: extractionFailures.domain,
+      set: {
+        failureCount: sql`${extractionFailures.failureCount} + 1`,
+        lastError: error,
+        lastUrl: url,
+        lastFailedAt: new Date(),
+      },
+    });
+}
+
+/**
+ * Domains with the most extraction failures
+ */
+export async function getExtractionFailures(limit = 10) {
+  return db.query.extractionFailures.findMany({
+    orderBy: (t, { desc }) => [desc(t.failureCount)],
+    limit,
+  });
+}
@@ -0,0 +1,373 @@
+/**
+ * RSS 2.0 / Atom 1.0 feed client
+ * Parses feeds into the common source article shape
+ */
+
+import { XMLParser } from "fast-xml-parser";
+import { db } from "@/db";
+import { feeds, type Feed } from "@/db/schema";
+import { asc, eq } from "drizzle-orm";
+import { assertPublicUrl } from "./hosts";
+import { resilientFetch } from "./resilience";
+import { parseLanguageTag, type SourceArticle } from "./sources";
+import {
+  asArray,
+  attr,
+  child,
+  children,
+  isElement,
+  textOf,
+  type XmlElement,
+  type XmlValue,
+} from "./xml";
+
+// ============================================
+// Types
+// ============================================
+
+export interface ParsedFeed {
+  title: string | null;
+  siteUrl: string | null;
+  articles: SourceArticle[];
+}
+
+export type FeedFetchResult =
+  | { notModified: true }
+  | {
+      notModified: false;
+      feed: ParsedFeed;
+      etag: string | null;
+      lastModified: string | null;
+    };
+
+// ============================================
+// Parsing
+// ============================================
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  textNodeName: "#text",
+  htmlEntities: true,
+  parseTagValue: false, // Keep titles like "E1" or "2024" as strings
+  isArray: (name) => ["item", "entry", "link"].includes(name),
+});
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Strip markup from feed descriptions, which are often HTML
+ * CDATA sections skip the XML parser's entity decoding, so decode here too
+ */
+function stripHtml(html: string | null): string | null {
+  if (!html) return null;
+  const text = html
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+      if (entity.startsWith("#")) {
+        const code =
+          entity[1].toLowerCase() === "x"
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10);
+        return isNaN(code) || code > 0x10ffff
+          ? match
+          : String.fromCodePoint(code);
+      }
+      return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+  return text || null;
+}
+
+function parseDate(value: string | null): Date {
+  const date = value ? new Date(value) : new Date();
+  return isNaN(date.getTime()) ? new Date() : date;
+}
+
+/**
+ * Pick the article link from an Atom entry (rel="alternate" or no rel)
+ */
+function atomLink(links: XmlValue): string | null {
+  const list = asArray(links);
+  if (!list.length) return null;
+  const alternate =
+    list.find((l) => {
+      const rel = attr(l, "rel");
+      return !rel || rel === "alternate";
+    }) ?? list[0];
+  return attr(alternate, "href") ?? textOf(alternate);
+}
+
+function rssImage(item: XmlElement): string | null {
+  const enclosure = asArray(item.enclosure)[0];
+  const enclosureUrl = attr(enclosure, "url");
+  if (enclosureUrl && /^image\//.test(attr(enclosure, "type") ?? "")) {
+    return enclosureUrl;
+  }
+  const media = asArray(item["media:content"] ?? item["media:thumbnail"])[0];
+  return attr(media, "url");
+}
+
+function parseRss(channel: XmlElement): ParsedFeed {
+  const feedTitle = textOf(channel.title);
+  const { language, region } = parseLanguageTag(textOf(channel.language));
+
+  const articles = children(channel, "item")
+    .map((item): SourceArticle | null => {
+      const url = textOf(item.link) ?? textOf(item.guid);
+      const title = textOf(item.title);
+      if (!url || !title) return null;
+
+      const content = textOf(item["content:encoded"]);
+
+      return {
+        title: stripHtml(title) ?? title,
+        description: stripHtml(textOf(item.description)),
+        content: stripHtml(content),
+        url,
+        imageUrl: rssImage(item),
+        author: textOf(item["dc:creator"]) ?? textOf(item.author),
+        publisherName: feedTitle,
+        publishedAt: parseDate(textOf(item.pubDate) ?? textOf(item["dc:date"])),
+        language,
+        region,
+      };
+    })
+    .filter(Boolean) as SourceArticle[];
+
+  return {
+    title: feedTitle,
+    siteUrl: textOf(channel.link),
+    articles,
+  };
+}
+
+function parseAtom(feed: XmlElement): ParsedFeed {
+  const feedTitle = textOf(feed.title);
+  const feedLanguage = attr(feed, "xml:lang");
+
+  const articles = children(feed, "entry")
+    .map((entry): SourceArticle | null => {
+      const url = atomLink(entry.link);
+      const title = textOf(entry.title);
+      if (!url || !title) return null;
+
+      // xml:lang is inherited, so an entry can override the feed's
+      const { language, region } = parseLanguageTag(
+        attr(entry, "xml:lang") ?? feedLanguage
+      );
+
+      return {
+        title: stripHtml(title) ?? title,
+        description: stripHtml(textOf(entry.summary)),
+        content: stripHtml(textOf(entry.content)),
+        url,
+        imageUrl: null,
+        author: textOf(child(entry.author, "name")),
+        publisherName: feedTitle,
+        publishedAt: parseDate(
+          textOf(entry.published) ?? textOf(entry.updated)
+        ),
+        language,
+        region,
+      };
+    })
+    .filter(Boolean) as SourceArticle[];
+
+  return {
+    title: feedTitle,
+    siteUrl: atomLink(feed.link),
+    articles,
+  };
+}
+
+/**
+ * Parse an RSS 2.0 or Atom 1.0 document
+ */
+export function parseFeed(xml: string): ParsedFeed {
+  const doc: XmlValue = parser.parse(xml);
+
+  const channel = child(child(doc, "rss"), "channel");
+  if (isElement(channel)) {
+    return parseRss(channel);
+  }
+  const feed = child(doc, "feed");
+  if (isElement(feed)) {
+    return parseAtom(feed);
+  }
+
+  throw new Error("Not an RSS 2.0 or Atom 1.0 feed");
+}
+
+// ============================================
+// Client
+// ============================================
+
+const FEED_USER_AGENT = "Mozilla/5.0 (compatible; NewsFeedFetcher/1.0)";
+
+const MAX_REDIRECTS = 5;
+
+/**
+ * Fetch a feed with a conditional GET
+ * Returns notModified when the server answers 304 for the stored validators.
+ * Hosts that aren't public are refused, redirect targets included.
+ */
+export async function fetchFeed(
+  url: string,
+  validators: { etag?: string | null; lastModified?: string | null } = {}
+): Promise<FeedFetchResult> {
+  const headers: Record<string, string> = {
+    "User-Agent": FEED_USER_AGENT,
+    Accept:
+      "application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8",
+  };
+
+  if (validators.etag) {
+    headers["If-None-Match"] = validators.etag;
+  }
+  if (validators.lastModified) {
+    headers["If-Modified-Since"] = validators.lastModified;
+  }
+
+  // Redirects are followed by hand so every hop gets the public host check
+  let current = url;
+  let response: Response;
+  for (let hop = 0; ; hop++) {
+    await assertPublicUrl(current);
+
+    // One breaker per host, so a dead site (or the CDN a feed redirects
+    // to) doesn't slow every poll
+    response = await resilientFetch(
+      `feed:${new URL(current).hostname}`,
+      current,
+      { headers, redirect: "manual" },
+      { retries: 1 }
+    );
+
+    const location =
+      response.status >= 300 && response.status < 400 && response.status !== 304
+        ? response.headers.get("location")
+        : null;
+    if (!location) break;
+
+    await response.body?.cancel();
+    if (hop >= MAX_REDIRECTS) {
+      throw new Error("Too many redirects");
+    }
+    current = new URL(location, current).toString();
+  }
+
+  if (response.status === 304) {
+    return { notModified: true };
+  }
+
+  if (!response.ok) {
+    throw new Error(`Feed request failed (${response.status})`);
+  }
+
+  const xml = await response.text();
+
+  return {
+    notModified: false,
+    feed: parseFeed(xml),
+    etag: response.headers.get("etag"),
+    lastModified: response.headers.get("last-modified"),
+  };
+}
+
+// ============================================
+// Feed Registry
+// ============================================
+
+/**
+ * Register a feed after checking that it can be fetched and parsed
+ */
+export async function addFeed(
+  url: string,
+  options: { title?: string; topicId?: string | null } = {}
+): Promise<Feed> {
+  const existing = await db.query.feeds.findFirst({
+    where: eq(feeds.url, url),
+  });
+
+  if (existing) {
+    throw new Error("Feed is already registered");
+  }
+
+  const result = await fetchFeed(url);
+  const parsed = result.notModified ? null : result.feed;
+
+  const [feed] = await db
+    .insert(feeds)
+    .values({
+      url,
+      title: options.title ?? parsed?.title ?? url,
+      siteUrl: parsed?.siteUrl,
+      topicId: options.topicId ?? null,
+    })
+    .returning();
+
+  return feed;
+}
+
+/**
+ * List registered feeds, optionally only the enabled ones
+ */
+export async function listFeeds(options: { enabledOnly?: boolean } = {}) {
+  return db.query.feeds.findMany({
+    where: options.enabledOnly ? eq(feeds.enabled, true) : undefined,
+    orderBy: [asc(feeds.title)],
+    with: {
+      topic: true,
+    },
+  });
+}
+
+/**
+ * Enable or disable polling for a feed
+ */
+export async function setFeedEnabled(
+  id: string,
+  enabled: boolean
+): Promise<Feed | null> {
+  const [feed] = await db
+    .update(feeds)
+    .set({ enabled })
+    .where(eq(feeds.id, id))
+    .returning();
+
+  return feed ?? null;
+}
+
+/**
+ * Record the outcome of a poll
+ * Validators are only replaced when the server sent a fresh copy
+ */
+export async function markFeedFetched(
+  id: string,
+  outcome: {
+    etag?: string | null;
+    lastModified?: string | null;
+    error?: string | null;
+  }
+): Promise<void> {
+  await db
+    .update(feeds)
+    .set({
+      lastFetchedAt: new Date(),
+      lastError: outcome.error ?? null,
+      ...(outcome.etag !== undefined && { etag: outcome.etag }),
+      ...(outcome.lastModified !== undefined && {
+        lastModified: outcome.lastModified,
+      }),
+    })
+    .where(eq(feeds.id, id));
+}
@@ -1,48 +1,153 @@
 import { db } from "@/db";
-import { articles, topics } from "@/db/schema";
-import { eq } from "drizzle-orm";
-import { fetchGNewsTopHeadlines, type GNewsArticle } from "./gnews";
+import {
+  articles,
+  topics,
+  type NewArticle,
+  type NewArticleTagEvent,
+  type NewArticleTopic,
+} from "@/db/schema";
+import { and, eq, inArray, isNull, or } from "drizzle-orm";
 import { hashUrl } from "./hash";
-import { tagArticle, getAllTopics } from "./tagger";
+import {
+  resolveCanonicalUrl,
+  staticCanonicalUrl,
+  type CanonicalUrl,
+} from "./canonical";
+import { clusterArticles } from "./clusters";
+import { fetchFeed, listFeeds, markFeedFetched } from "./feeds";
+import { insertArticleTopics, labelRows, replaceArticleTopics } from "./labels";
+import { getTaggingStats, recordTagEvents, tagEventRow } from "./provenance";
+import { getUrlRules } from "./normalization";
+import { getTaggingRules, seedDefaultKeywords } from "./rules";
+import {
+  extractArticle,
+  extractFromUrl,
+  getExtractionFailures,
+  recordExtractionFailure,
+  type ExtractedArticle,
+} from "./extractor";
+import {
+  advanceWatermark,
+  getQuotaStatus,
+  getWatermark,
+  reserveRequest,
+  watermarkKey,
+} from "./quota";
+import { getCircuitStatus } from "./resilience";
+import { getIngestionProfiles } from "./profiles";
+import { attachToStories } from "./stories";
+import { finishFetchRun, startFetchRun, type FetchTrigger } from "./runs";
+import {
+  getDailyQuota,
+  getEnabledSources,
+  type NewsSource,
+  type SourceArticle,
+  type SourceName,
+} from "./sources";
+import {
+  tagArticle,
+  getAllTopics,
+  isTopicSlug,
+  TOPICS,
+  type TagResult,
+  type TopicRule,
+} from "./tagger";
 
 // ============================================
 // Types
 // ============================================
 
-export interface FetchResult {
+export interface FetchCounts {
   fetched: number;
   inserted: number;
   duplicates: number;
   taggedByRule: number;
   taggedByAI: number;
   untagged: number;
+  extracted: number; // Full text extracted from the article page
+}
+
+// Feed items are counted together under "rss", pushed ones under "webhook"
+export type FetchSourceKey = SourceName | "rss" | "webhook";
+
+export interface FetchResult extends FetchCounts {
+  bySource: Partial<Record<FetchSourceKey, FetchCounts>>;
+  deferred: SourceName[]; // Skipped because today's quota is used up
   errors: string[];
 }
 
+function emptyCounts(): FetchCounts {
+  return {
+    fetched: 0,
+    inserted: 0,
+    duplicates: 0,
+    taggedByRule: 0,
+    taggedByAI: 0,
+    untagged: 0,
+    extracted: 0,
+  };
+}
+
+export function emptyResult(): FetchResult {
+  return {
+    ...emptyCounts(),
+    bySource: {},
+    deferred: [],
+    errors: [],
+  };
+}
+
+/**
+ * Add one result's counts and errors into another (e.g. backfill pages)
+ */
+export function mergeFetchResult(target: FetchResult, source: FetchResult) {
+  for (const field of Object.keys(emptyCounts()) as (keyof FetchCounts)[]) {
+    target[field] += source[field];
+  }
+
+  for (const [key, counts] of Object.entries(source.bySource)) {
+    const existing = (target.bySource[key as FetchSourceKey] ??= emptyCounts());
+    for (const field of Object.keys(counts) as (keyof FetchCounts)[]) {
+      existing[field] += counts[field];
+    }
+  }
+
+  target.deferred.push(
+    ...source.deferred.filter((name) => !target.deferred.includes(name))
+  );
+  target.errors.push(...source.errors);
+}
+
 // ============================================
 // Seed Topics
 // ============================================
 
 /**
- * Ensure all topics exist in the database
+ * Ensure all built-in topics exist in the database, with their default
+ * keywords the first time
  */
 export async function seedTopics(): Promise<void> {
   const allTopics = getAllTopics();
 
   for (const topic of allTopics) {
     // Upsert each topic
-    const existing = await db.query.topics.findFirst({
+    let existing = await db.query.topics.findFirst({
       where: eq(topics.slug, topic.slug),
     });
 
     if (!existing) {
-      await db.insert(topics).values({
-        name: topic.name,
-        slug: topic.slug,
-        sortOrder: topic.sortOrder,
-      });
+      [existing] = await db
+        .insert(topics)
+        .values({
+          name: topic.name,
+          slug: topic.slug,
+          sortOrder: topic.sortOrder,
+        })
+        .returning();
       console.log(`Created topic: ${topic.name}`);
     }
+
+    await seedDefaultKeywords(existing);
   }
 }
 
@@ -50,124 +155,798 @@ export async function seedTopics(): Promise<void> {
 // Fetch & Store
 // ============================================
 
+// How far back a source's first fetch looks, before it has a watermark
+const DEFAULT_LOOKBACK_HOURS = 24;
+
+// New articles extracted and tagged at once - each may fetch the article
+// page and call OpenAI
+const PROCESS_CONCURRENCY = 5;
+
 export interface FetchOptions {
-  maxArticles?: number;
+  maxArticles?: number; // Per source, capped at the provider's request limit
   useAI?: boolean;
+  sources?: SourceName[]; // Defaults to every enabled source
+  includeFeeds?: boolean; // Poll enabled RSS/Atom feeds too (default: true)
+  extractContent?: boolean; // Download full text for new articles (default: true)
+  canonicalize?: boolean; // Follow redirects and canonical links before dedup (default: true)
+  trigger?: FetchTrigger; // Recorded in the run history (default: "manual")
+  topicQueries?: boolean; // Also run each topic's own query (default: true)
 }
 
 /**
- * Fetch articles from GNews and store them in the database
+ * A topic-scoped query, run against every enabled source
+ */
+interface TopicQuery {
+  slug: string;
+  query: string;
+  lang: string | null;
+  country: string | null;
+  budget: number;
+}
+
+/**
+ * One search against a source - a profile's general query or a topic query
+ */
+interface SourceQuery {
+  label: string | null; // Appended to the source label in errors
+  scope: string | null; // Watermark scope, null for the plain source key
+  query?: string;
+  lang?: string;
+  country?: string;
+  max: number;
+  topicHint: string | null; // Fallback topic when the tagger isn't sure
+}
+
+interface RunContext {
+  maxArticles: number;
+  useAI: boolean;
+  extractContent: boolean;
+  canonicalize: boolean;
+  topicMap: Map<string, string>;
+  result: FetchResult;
+}
+
+/**
+ * Fetch articles from the enabled news sources and store them in the database
  */
 export async function fetchAndStoreArticles(
   options: FetchOptions = {}
 ): Promise<FetchResult> {
-  const { maxArticles = 50, useAI = true } = options;
+  const {
+    maxArticles = 50,
+    useAI = true,
+    sources,
+    includeFeeds = true,
+    extractContent = true,
+    canonicalize = true,
+    trigger = "manual",
+    topicQueries = true,
+  } = options;
 
-  const result: FetchResult = {
-    fetched: 0,
-    inserted: 0,
-    duplicates: 0,
-    taggedByRule: 0,
-    taggedByAI: 0,
-    untagged: 0,
-    errors: [],
-  };
+  const result = emptyResult();
+  const runId = await startFetchRun(trigger);
+  let providers: string[] = [];
 
   try {
+    const enabledSources = getEnabledSources(sources);
+    const enabledFeeds = includeFeeds
+      ? await listFeeds({ enabledOnly: true })
+      : [];
+
+    providers = enabledSources.map((s) => s.name);
+    if (enabledFeeds.length > 0) {
+      providers.push("rss");
+    }
+
+    if (enabledSources.length === 0 && enabledFeeds.length === 0) {
+      result.errors.push(
+        "No news sources enabled - set an API key for at least one provider or add a feed"
+      );
+      return result;
+    }
+
     // Ensure topics exist
     await seedTopics();
 
-    // Fetch from GNews (last 24 hours by default)
-    const response = await fetchGNewsTopHeadlines({
-      max: maxArticles,
+    const topicMap = await getTopicMap();
+
+    const context: RunContext = {
+      maxArticles,
+      useAI,
+      extractContent,
+      canonicalize,
+      topicMap,
+      result,
+    };
+
+    const sourceQueries =
+      enabledSources.length > 0
+        ? await getSourceQueries(maxArticles, topicQueries)
+        : [];
+
+    // One provider failing shouldn't stop the others
+    for (const source of enabledSources) {
+      for (const sourceQuery of sourceQueries) {
+        try {
+          await fetchFromSource(source, context, sourceQuery);
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : "Unknown error";
+          result.errors.push(`${source.label} failed: ${message}`);
+        }
+      }
+    }
+
+    for (const feed of enabledFeeds) {
+      await fetchFromFeed(feed, context);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    result.errors.push(`Fetch failed: ${message}`);
+  } finally {
+    await finishFetchRun(runId, result, providers);
+  }
+
+  return result;
+}
+
+/**
+ * Store articles fetched outside of a regular run (e.g. a backfill page or
+ * a pushed batch)
+ */
+export async function storeFetchedArticles(
+  sourceArticles: SourceArticle[],
+  sourceKey: FetchSourceKey,
+  options: {
+    useAI?: boolean;
+    extractContent?: boolean;
+    canonicalize?: boolean;
+    topicHint?: string | null;
+  } = {}
+): Promise<FetchResult> {
+  const {
+    useAI = true,
+    extractContent = true,
+    canonicalize = true,
+    topicHint = null,
+  } = options;
+  const result = emptyResult();
+
+  await storeArticles(
+    sourceArticles,
+    sourceKey,
+    {
+      maxArticles: sourceArticles.length,
+      useAI,
+      extractContent,
+      canonicalize,
+      topicMap: await getTopicMap(),
+      result,
+    },
+    topicHint
+  );
+
+  return result;
+}
+
+/**
+ * Get topic slugs to IDs mapping
+ */
+async function getTopicMap(): Promise<Map<string, string>> {
+  const topicRecords = await db.query.topics.findMany();
+  return new Map(topicRecords.map((t) => [t.slug, t.id]));
+}
+
+/**
+ * Topics with topic-scoped fetching turned on, with their effective query
+ */
+async function getTopicQueries(): Promise<TopicQuery[]> {
+  const topicRecords = await db.query.topics.findMany({
+    where: eq(topics.fetchEnabled, true),
+    orderBy: (t, { asc }) => [asc(t.sortOrder)],
+  });
+
+  return topicRecords.flatMap((t) => {
+    // Topics added by editors have no default query
+    const query =
+      t.fetchQuery?.trim() || (isTopicSlug(t.slug) ? TOPICS[t.slug].query : "");
+    if (!query) return [];
+
+    return [
+      {
+        slug: t.slug,
+        query,
+        lang: t.fetchLang,
+        country: t.fetchCountry,
+        budget: t.fetchBudget,
+      },
+    ];
+  });
+}
+
+/**
+ * Searches to run against every enabled source: the general query once per
+ * ingestion profile, then each topic's own query
+ */
+async function getSourceQueries(
+  maxArticles: number,
+  includeTopics: boolean
+): Promise<SourceQuery[]> {
+  const profiles = await getIngestionProfiles();
+  const showProfile = profiles.length > 1 || profiles[0].scope !== null;
+
+  const sourceQueries: SourceQuery[] = profiles.map((p) => ({
+    label: showProfile ? p.name : null,
+    scope: p.scope,
+    query: p.query ?? undefined,
+    lang: p.language,
+    country: p.country,
+    max: Math.min(p.maxArticles ?? maxArticles, maxArticles),
+    topicHint: null,
+  }));
+
+  if (includeTopics) {
+    for (const t of await getTopicQueries()) {
+      sourceQueries.push({
+        label: t.slug,
+        scope: t.slug,
+        query: t.query,
+        lang: t.lang ?? undefined,
+        country: t.country ?? undefined,
+        max: Math.min(t.budget, maxArticles),
+        topicHint: t.slug,
+      });
+    }
+  }
+
+  return sourceQueries;
+}
+
+/**
+ * Run one search against a source and process its articles
+ * Topic searches default their articles to that topic when the tagger
+ * isn't sure
+ */
+async function fetchFromSource(
+  source: NewsSource,
+  context: RunContext,
+  sourceQuery: SourceQuery
+): Promise<void> {
+  const { result } = context;
+  const label = sourceQuery.label
+    ? `${source.label} (${sourceQuery.label})`
+    : source.label;
+
+  // Defer rather than burn a request the provider will reject
+  if (!(await reserveRequest(source))) {
+    if (!result.deferred.includes(source.name)) {
+      result.deferred.push(source.name);
+      result.errors.push(
+        `${source.label} daily quota (${getDailyQuota(source)}) exhausted - deferred until tomorrow (UTC)`
+      );
+    }
+    return;
+  }
+
+  // Only ask for articles newer than the newest one we have
+  const key = watermarkKey(source.name, sourceQuery.scope ?? undefined);
+  const watermark = await getWatermark(key);
+  const from = watermark
+    ? new Date(watermark.getTime() + 1000)
+    : new Date(Date.now() - DEFAULT_LOOKBACK_HOURS * 60 * 60 * 1000);
+
+  let sourceArticles: SourceArticle[];
+  try {
+    const page = await source.fetchArticles({
+      from,
+      query: sourceQuery.query,
+      lang: sourceQuery.lang,
+      country: sourceQuery.country,
+      max: sourceQuery.max,
+    });
+    sourceArticles = page.articles;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    result.errors.push(`${label} fetch failed: ${message}`);
+    return;
+  }
+
+  const stored = await storeArticles(
+    sourceArticles,
+    source.name,
+    context,
+    sourceQuery.topicHint
+  );
+
+  // Articles that failed to process are asked for again next run
+  if (stored && sourceArticles.length > 0) {
+    const newest = Math.max(
+      ...sourceArticles.map((a) => a.publishedAt.getTime())
+    );
+    await advanceWatermark(key, new Date(newest));
+  }
+}
+
+/**
+ * Poll a single feed, skipping it when the server reports no changes
+ */
+async function fetchFromFeed(
+  feed: Awaited<ReturnType<typeof listFeeds>>[number],
+  context: RunContext
+): Promise<void> {
+  const { maxArticles, result } = context;
+
+  try {
+    const response = await fetchFeed(feed.url, {
+      etag: feed.etag,
+      lastModified: feed.lastModified,
+    });
+
+    if (response.notModified) {
+      await markFeedFetched(feed.id, {});
+      return;
+    }
+
+    // Newest first, capped like any other source
+    const feedArticles = response.feed.articles
+      .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime())
+      .slice(0, maxArticles);
+
+    // The feed's topic (e.g. its OPML folder) is the default for its items
+    const topicHint = feed.topic?.slug ?? null;
+
+    await storeArticles(feedArticles, "rss", context, topicHint);
+
+    await markFeedFetched(feed.id, {
+      etag: response.etag,
+      lastModified: response.lastModified,
     });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    result.errors.push(`Feed "${feed.title ?? feed.url}" failed: ${message}`);
+    await markFeedFetched(feed.id, { error: message });
+  }
+}
+
+/**
+ * Dedup, tag and insert a batch of articles from one source
+ * URLs already seen (as received or canonical) are dropped with one lookup,
+ * the rest are canonicalized and looked up again by canonical URL. Only
+ * new articles are extracted and tagged, and they're inserted in a single
+ * statement, then clustered with other coverage of the same events and
+ * attached to the stories they follow up on.
+ * Returns false when some new articles couldn't be processed and weren't
+ * stored.
+ */
+async function storeArticles(
+  sourceArticles: SourceArticle[],
+  sourceKey: FetchSourceKey,
+  context: RunContext,
+  topicHint: string | null = null
+): Promise<boolean> {
+  const { useAI, extractContent, canonicalize, topicMap, result } = context;
+  const counts = (result.bySource[sourceKey] ??= emptyCounts());
+
+  // Count against both the source and the run totals
+  const track = (field: keyof FetchCounts) => {
+    counts[field]++;
+    result[field]++;
+  };
+
+  counts.fetched += sourceArticles.length;
+  result.fetched += sourceArticles.length;
+
+  const rules = await getUrlRules();
+
+  // Hash the batch, keeping the first of any URL it repeats
+  const byHash = new Map<string, SourceArticle>();
+  for (const article of sourceArticles) {
+    const urlHash = hashUrl(article.url, rules);
+    if (byHash.has(urlHash)) {
+      track("duplicates");
+    } else {
+      byHash.set(urlHash, article);
+    }
+  }
+
+  if (byHash.size === 0) return true;
 
-    result.fetched = response.articles.length;
+  // Rows stored before canonicalization only have urlHash
+  const receivedHashes = Array.from(byHash.keys());
+  const seen = await db
+    .select({
+      urlHash: articles.urlHash,
+      originalUrlHash: articles.originalUrlHash,
+    })
+    .from(articles)
+    .where(
+      or(
+        inArray(articles.urlHash, receivedHashes),
+        inArray(articles.originalUrlHash, receivedHashes)
+      )
+    );
 
-    // Get topic slugs to IDs mapping
-    const topicRecords = await db.query.topics.findMany();
-    const topicMap = new Map(topicRecords.map((t) => [t.slug, t.id]));
+  for (const row of seen) {
+    for (const hash of [row.urlHash, row.originalUrlHash]) {
+      if (hash && byHash.delete(hash)) {
+        track("duplicates");
+      }
+    }
+  }
 
-    // Process each article
-    for (const article of response.articles) {
+  // Resolving means fetching the page, so run a few at a time
+  const resolved = await mapWithConcurrency(
+    Array.from(byHash),
+    PROCESS_CONCURRENCY,
+    async ([originalUrlHash, article]) => {
+      const canonical = canonicalize
+        ? await resolveCanonicalUrl(article.url)
+        : staticCanonicalUrl(article.url);
+      return { article, originalUrlHash, canonical };
+    }
+  );
+
+  // Two received URLs can share a canonical one (e.g. an AMP page and the
+  // original), and the canonical URL may already be stored
+  const byCanonicalHash = new Map<string, (typeof resolved)[number]>();
+  for (const item of resolved) {
+    const urlHash = hashUrl(item.canonical.url, rules);
+    if (byCanonicalHash.has(urlHash)) {
+      track("duplicates");
+    } else {
+      byCanonicalHash.set(urlHash, item);
+    }
+  }
+
+  const changedHashes = Array.from(byCanonicalHash).flatMap(
+    ([urlHash, item]) => (urlHash !== item.originalUrlHash ? [urlHash] : [])
+  );
+
+  if (changedHashes.length > 0) {
+    const stored = await db
+      .select({ urlHash: articles.urlHash })
+      .from(articles)
+      .where(inArray(articles.urlHash, changedHashes));
+
+    for (const { urlHash } of stored) {
+      byCanonicalHash.delete(urlHash);
+      track("duplicates");
+    }
+  }
+
+  // Extraction and AI tagging are the slow part, so run a few at a time
+  const taggingRules = await getTaggingRules();
+  const prepared = await mapWithConcurrency(
+    Array.from(byCanonicalHash),
+    PROCESS_CONCURRENCY,
+    async ([urlHash, { article, originalUrlHash, canonical }]) => {
       try {
-        await processArticle(article, topicMap, result, useAI);
+        return await prepareArticle(article, canonical, sourceKey, {
+          urlHash,
+          originalUrlHash,
+          topicMap,
+          taggingRules,
+          useAI,
+          extractContent,
+          topicHint,
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : "Unknown error";
         result.errors.push(`Failed to process "${article.title}": ${message}`);
+        return null;
       }
     }
+  );
+
+  const rows = prepared.filter((p): p is PreparedArticle => p !== null);
+  const prepareFailed = rows.length < prepared.length;
+  if (rows.length === 0) return !prepareFailed;
+
+  const { inserted, failed } = await insertArticles(rows, result);
+  const labels: NewArticleTopic[] = [];
+  const tagEvents: NewArticleTagEvent[] = [];
+
+  for (const { values, tagResult, extracted } of rows) {
+    // Inserted by a concurrent run since the lookup
+    const articleId = inserted.get(values.urlHash);
+    if (!articleId) {
+      track("duplicates");
+      continue;
+    }
+
+    labels.push(...labelRows(articleId, tagResult.labels, topicMap));
+    tagEvents.push(
+      tagEventRow(articleId, tagResult, "ingest", values.topicId ?? null)
+    );
+
+    track("inserted");
+    if (extracted) {
+      track("extracted");
+    }
+
+    // Log tagging result
+    console.log(
+      `[Tagger] "${values.title.slice(0, 50)}..." → ${tagResult.topicSlug || "untagged"} (${tagResult.source}, ${(tagResult.confidence * 100).toFixed(0)}%)`
+    );
+
+    // Track tagging stats - topic hints count as rule tags, no AI call was made
+    if (!tagResult.topicSlug) {
+      track("untagged");
+    } else {
+      track(tagResult.source === "ai" ? "taggedByAI" : "taggedByRule");
+    }
+  }
+
+  try {
+    await insertArticleTopics(labels);
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
-    result.errors.push(`Fetch failed: ${message}`);
+    result.errors.push(`Storing topic labels failed: ${message}`);
+  }
+  try {
+    await recordTagEvents(tagEvents);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    result.errors.push(`Storing tagging provenance failed: ${message}`);
   }
 
-  return result;
+  // Group with other outlets' coverage of the same events, and with
+  // earlier coverage from the past week - the articles are stored either way
+  const insertedIds = Array.from(inserted.values());
+  try {
+    await clusterArticles(insertedIds);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    result.errors.push(`Clustering failed: ${message}`);
+  }
+  try {
+    await attachToStories(insertedIds);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    result.errors.push(`Story matching failed: ${message}`);
+  }
+
+  return !prepareFailed && failed === 0;
 }
 
 /**
- * Process a single article
+ * An article ready to insert, with how it was tagged
  */
-async function processArticle(
-  article: GNewsArticle,
-  topicMap: Map<string, string>,
-  result: FetchResult,
-  useAI: boolean
-): Promise<void> {
-  const urlHash = hashUrl(article.url);
-
-  // Check for duplicate
-  const existing = await db.query.articles.findFirst({
-    where: eq(articles.urlHash, urlHash),
-  });
+interface PreparedArticle {
+  values: NewArticle;
+  tagResult: TagResult;
+  extracted: boolean;
+}
 
-  if (existing) {
-    result.duplicates++;
-    return;
+/**
+ * Extract and tag a new article into an insertable row
+ */
+async function prepareArticle(
+  article: SourceArticle,
+  canonical: CanonicalUrl,
+  sourceName: string,
+  options: {
+    urlHash: string; // Of the canonical URL
+    originalUrlHash: string;
+    topicMap: Map<string, string>;
+    taggingRules: TopicRule[];
+    useAI: boolean;
+    extractContent: boolean;
+    topicHint: string | null;
   }
+): Promise<PreparedArticle> {
+  const {
+    urlHash,
+    originalUrlHash,
+    topicMap,
+    taggingRules,
+    useAI,
+    extractContent,
+    topicHint,
+  } = options;
+
+  // Replace the provider's snippet with the full text when we can get it
+  const extracted = extractContent
+    ? await extractContentSafely(canonical)
+    : null;
+  const content = extracted?.text ?? article.content;
 
   // Tag the article (async, may use AI)
-  const tagResult = await tagArticle(article.title, article.description, {
-    useAI,
-  });
+  const tagResult = await tagArticle(
+    article.title,
+    article.description ?? undefined,
+    {
+      useAI,
+      topicHint,
+      content: content ?? undefined,
+      rules: taggingRules,
+    }
+  );
 
   const topicId = tagResult.topicSlug
     ? topicMap.get(tagResult.topicSlug) || null
     : null;
 
-  // Track tagging stats
-  if (tagResult.topicSlug) {
-    if (tagResult.source === "ai") {
-      result.taggedByAI++;
-    } else {
-      result.taggedByRule++;
-    }
-  } else {
-    result.untagged++;
-  }
-
-  // Insert the article
-  await db.insert(articles).values({
-    topicId,
-    sourceName: "gnews",
-    title: article.title,
-    description: article.description,
-    content: article.content,
-    author: null, // GNews doesn't provide author
-    publisherName: article.source.name,
-    url: article.url,
-    urlHash,
-    imageUrl: article.image,
-    publishedAt: new Date(article.publishedAt),
+  return {
+    values: {
+      topicId,
+      sourceName,
+      title: article.title,
+      description: article.description,
+      content,
+      author: article.author ?? extracted?.byline ?? null,
+      publisherName: article.publisherName,
+      url: canonical.url,
+      urlHash,
+      originalUrl: article.url,
+      originalUrlHash,
+      imageUrl: article.imageUrl ?? extracted?.leadImageUrl ?? null,
+      language: article.language,
+      region: article.region,
+      wordCount: extracted?.wordCount ?? null,
+      contentExtractedAt: extracted ? new Date() : null,
+      publishedAt: article.publishedAt,
+    },
+    tagResult,
+    extracted: extracted !== null,
+  };
+}
+
+/**
+ * Insert prepared rows, skipping URL hashes that already exist
+ * Returns the IDs of the rows actually inserted, by URL hash, and how many
+ * couldn't be stored. If the batch is rejected (e.g. one oversized value),
+ * rows are retried one by one so the rest still land.
+ */
+async function insertArticles(
+  rows: PreparedArticle[],
+  result: FetchResult
+): Promise<{ inserted: Map<string, string>; failed: number }> {
+  const insert = (values: NewArticle[]) =>
+    db
+      .insert(articles)
+      .values(values)
+      .onConflictDoNothing({ target: articles.urlHash })
+      .returning({ id: articles.id, urlHash: articles.urlHash });
+
+  try {
+    const inserted = await insert(rows.map((r) => r.values));
+    return {
+      inserted: new Map(inserted.map((r) => [r.urlHash, r.id])),
+      failed: 0,
+    };
+  } catch (error) {
+    console.error("Batch insert failed, retrying row by row:", error);
+  }
+
+  const insertedIds = new Map<string, string>();
+  let failed = 0;
+  for (const { values } of rows) {
+    try {
+      const [inserted] = await insert([values]);
+      if (inserted) {
+        insertedIds.set(inserted.urlHash, inserted.id);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      result.errors.push(`Failed to store "${values.title}": ${message}`);
+      failed++;
+    }
+  }
+  return { inserted: insertedIds, failed };
+}
+
+/**
+ * Map over items with at most `limit` calls in flight, keeping their order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  return results;
+}
+
+/**
+ * Re-run tagging (AI included) on a stored article and update its topic
+ * and labels, recording the run
+ * An article is never moved back to untagged, and one whose topic an
+ * editor set is left alone (null is returned).
+ */
+export async function retagArticle(articleId: string) {
+  const article = await db.query.articles.findFirst({
+    where: eq(articles.id, articleId),
   });
 
-  result.inserted++;
+  if (!article) {
+    throw new Error("Article not found");
+  }
+
+  if (article.manuallyTaggedAt) return null;
 
-  // Log tagging result
-  console.log(
-    `[Tagger] "${article.title.slice(0, 50)}..." → ${tagResult.topicSlug || "untagged"} (${tagResult.source}, ${(tagResult.confidence * 100).toFixed(0)}%)`
+  const tagResult = await tagArticle(
+    article.title,
+    article.description ?? undefined,
+    {
+      useAI: true,
+      content: article.content ?? undefined,
+      rules: await getTaggingRules(),
+    }
   );
+
+  const topicMap = await getTopicMap();
+  const topicId = tagResult.topicSlug
+    ? topicMap.get(tagResult.topicSlug) || null
+    : null;
+
+  // An editor may have set the topic while we were tagging
+  let changed = false;
+  if (topicId && topicId !== article.topicId) {
+    const updated = await db
+      .update(articles)
+      .set({ topicId })
+      .where(and(eq(articles.id, articleId), isNull(articles.manuallyTaggedAt)))
+      .returning({ id: articles.id });
+    if (updated.length === 0) return null;
+    changed = true;
+  }
+
+  // Keep the old labels when the retag found nothing better
+  const labels = labelRows(articleId, tagResult.labels, topicMap);
+  if (topicId && labels.length > 0) {
+    await replaceArticleTopics(articleId, labels);
+  }
+
+  await recordTagEvents([
+    tagEventRow(articleId, tagResult, "retag", topicId, article.topicId),
+  ]);
+
+  return {
+    ...tagResult,
+    changed,
+    previousTopicId: article.topicId,
+    topicId: changed ? topicId : article.topicId,
+  };
+}
+
+/**
+ * Extract full text, recording failures per domain instead of throwing
+ * Reuses the page canonicalization already downloaded when there is one
+ */
+async function extractContentSafely(
+  canonical: CanonicalUrl
+): Promise<ExtractedArticle | null> {
+  try {
+    if (!canonical.page) {
+      return await extractFromUrl(canonical.url);
+    }
+
+    const extracted = extractArticle(canonical.page.html, canonical.page.url);
+    if (!extracted) {
+      throw new Error("No readable content found");
+    }
+    return extracted;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await recordExtractionFailure(canonical.url, message).catch((e) =>
+      console.error("Failed to record extraction failure:", e)
+    );
+    return null;
+  }
 }
 
 /**
@@ -188,5 +967,9 @@ export async function getFetchStats() {
       slug: t.slug,
       count: t.articles?.length || 0,
     })),
+    quota: await getQuotaStatus(),
+    extractionFailures: await getExtractionFailures(),
+    circuits: getCircuitStatus(),
+    tagging: await getTaggingStats(),
   };
 }
@@ -3,6 +3,8 @@
  * Docs: https://gnews.io/docs/v4
  */
 
+import { resilientFetch, SERVER_ERROR_STATUSES } from "./resilience";
+
 // ============================================
 // Types
 // ============================================
@@ -32,6 +34,7 @@ export interface GNewsFetchOptions {
   max?: number; // 1-100, default 10
   from?: Date; // Filter articles from this date (ISO 8601)
   to?: Date; // Filter articles to this date (ISO 8601)
+  page?: number; // 1-based, paid plans only
 }
 
 // ============================================
@@ -63,6 +66,7 @@ export async function fetchGNewsTopHeadlines(
     max = 50,
     from = new Date(Date.now() - DEFAULT_HOURS_AGO * 60 * 60 * 1000), // Default: 24 hours ago
     to,
+    page,
   } = options;
 
   const params = new URLSearchParams({
@@ -78,13 +82,18 @@ export async function fetchGNewsTopHeadlines(
     params.set("to", to.toISOString());
   }
 
+  if (page && page > 1) {
+    params.set("page", page.toString());
+  }
+
   const url = `${GNEWS_BASE_URL}/search?${params.toString()}`;
 
-  const response = await fetch(url, {
-    headers: {
-      "Content-Type": "application/json",
-    },
-  });
+  const response = await resilientFetch(
+    "gnews",
+    url,
+    { headers: { "Content-Type": "application/json" } },
+    { retryStatuses: SERVER_ERROR_STATUSES }
+  );
 
 
 
@@ -0,0 +1,167 @@
+/**
+ * Article grouping
+ * What story clusters and stories share: compare new articles with those
+ * published around them, put each in its closest match's group (or start
+ * one) and keep every group's summary in step with its members
+ */
+
+import { db } from "@/db";
+import { articles, type NewArticle } from "@/db/schema";
+import { and, asc, desc, eq, gte, inArray, isNull, lte } from "drizzle-orm";
+import { groupBySimilarity } from "./similarity";
+
+// ============================================
+// Types
+// ============================================
+
+// Article column holding the group
+export type GroupField = "clusterId" | "storyId";
+
+export interface GroupMember {
+  id: string;
+  title: string;
+  publisherName: string | null;
+  publishedAt: Date;
+}
+
+export interface Grouping {
+  field: GroupField;
+  windowMs: number; // Articles this far apart can still be grouped
+  threshold: number; // TF-IDF cosine of title + description to join
+  maxWindowArticles: number; // Most articles around the new ones compared
+  // Start groups - their summaries are filled in by update
+  create: (count: number) => Promise<string[]>;
+  // Summarize a group from its members (two or more, earliest first)
+  update: (groupId: string, members: GroupMember[]) => Promise<void>;
+  remove: (groupId: string) => Promise<void>;
+}
+
+export interface GroupingResult {
+  checked: number; // New articles compared against the window
+  grouped: number; // Of those, joined to or started a group
+  created: number; // Groups started
+}
+
+// ============================================
+// Grouping
+// ============================================
+
+/**
+ * Put new articles into the group of a similar article published within
+ * the window, starting a group when the closest match has none
+ * Articles already in a group are skipped.
+ */
+export async function groupArticles(
+  articleIds: string[],
+  grouping: Grouping
+): Promise<GroupingResult> {
+  const result: GroupingResult = { checked: 0, grouped: 0, created: 0 };
+  if (articleIds.length === 0) return result;
+
+  const column = articles[grouping.field];
+  const windowColumns = {
+    id: articles.id,
+    title: articles.title,
+    description: articles.description,
+    publishedAt: articles.publishedAt,
+    groupId: column,
+  };
+
+  const fresh = await db
+    .select(windowColumns)
+    .from(articles)
+    .where(and(inArray(articles.id, articleIds), isNull(column)))
+    .orderBy(asc(articles.publishedAt));
+
+  if (fresh.length === 0) return result;
+
+  const since = new Date(fresh[0].publishedAt.getTime() - grouping.windowMs);
+  const until = new Date(
+    fresh[fresh.length - 1].publishedAt.getTime() + grouping.windowMs
+  );
+
+  const window = await db
+    .select(windowColumns)
+    .from(articles)
+    .where(
+      and(gte(articles.publishedAt, since), lte(articles.publishedAt, until))
+    )
+    .orderBy(desc(articles.publishedAt))
+    .limit(grouping.maxWindowArticles);
+
+  const groups = groupBySimilarity(fresh, window, {
+    threshold: grouping.threshold,
+    maxGapMs: grouping.windowMs,
+    groupOf: (article) => article.groupId,
+  });
+
+  result.checked = fresh.length;
+  result.grouped = groups.matched;
+  result.created = groups.created;
+  if (groups.changed.length === 0) return result;
+
+  const started =
+    groups.created > 0 ? await grouping.create(groups.created) : [];
+
+  const members = new Map<string, string[]>();
+  for (const articleId of groups.changed) {
+    const group = groups.groupOf.get(articleId)!;
+    const groupId = typeof group === "number" ? started[group] : group;
+    members.set(groupId, [...(members.get(groupId) ?? []), articleId]);
+  }
+
+  for (const [groupId, ids] of members) {
+    const values: Partial<Pick<NewArticle, GroupField>> = {};
+    values[grouping.field] = groupId;
+    await db.update(articles).set(values).where(inArray(articles.id, ids));
+  }
+
+  await refreshGroups(Array.from(members.keys()), grouping);
+  return result;
+}
+
+/**
+ * Re-summarize groups from their members
+ * A group left with fewer than two articles is removed.
+ */
+async function refreshGroups(
+  groupIds: string[],
+  grouping: Grouping
+): Promise<void> {
+  for (const groupId of groupIds) {
+    const members = await db
+      .select({
+        id: articles.id,
+        title: articles.title,
+        publisherName: articles.publisherName,
+        publishedAt: articles.publishedAt,
+      })
+      .from(articles)
+      .where(eq(articles[grouping.field], groupId))
+      .orderBy(asc(articles.publishedAt));
+
+    if (members.length < 2) {
+      await grouping.remove(groupId);
+    } else {
+      await grouping.update(groupId, members);
+    }
+  }
+}
+
+/**
+ * Articles of the last N hours with no group yet - for articles stored
+ * before the grouping existed
+ */
+export async function ungroupedArticleIds(
+  field: GroupField,
+  hours: number
+): Promise<string[]> {
+  const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+
+  const recent = await db
+    .select({ id: articles.id })
+    .from(articles)
+    .where(and(gte(articles.publishedAt, since), isNull(articles[field])));
+
+  return recent.map((a) => a.id);
+}
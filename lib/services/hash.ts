@@ -1,52 +1,129 @@
 import { createHash } from "crypto";
+import type { UrlRule } from "@/db/schema";
+
+// The parts of a stored rule that affect normalization
+export type UrlNormalizationRule = Pick<
+  UrlRule,
+  "host" | "stripParams" | "keepParams" | "caseSensitivePath" | "aliasOf"
+>;
+
+// Host of the rule that applies to every URL
+export const GLOBAL_RULE_HOST = "*";
+
+// Stripped unless a rule keeps them
+const DEFAULT_TRACKING_PARAMS = [
+  "utm_source",
+  "utm_medium",
+  "utm_campaign",
+  "utm_term",
+  "utm_content",
+  "ref",
+  "source",
+  "fbclid",
+  "gclid",
+];
 
 /**
  * Generate SHA-256 hash of a URL for deduplication
  */
-export function hashUrl(url: string): string {
+export function hashUrl(
+  url: string,
+  rules: UrlNormalizationRule[] = []
+): string {
   // Normalize URL before hashing
-  const normalized = normalizeUrl(url);
+  const normalized = normalizeUrl(url, rules);
   return createHash("sha256").update(normalized).digest("hex");
 }
 
+/**
+ * Most specific rule for a host - a rule for example.com also covers
+ * news.example.com
+ */
+export function findHostRule<T extends UrlNormalizationRule>(
+  host: string,
+  rules: T[]
+): T | null {
+  let best: T | null = null;
+
+  for (const rule of rules) {
+    if (rule.host === GLOBAL_RULE_HOST) continue;
+    if (host !== rule.host && !host.endsWith(`.${rule.host}`)) continue;
+    if (!best || rule.host.length > best.host.length) {
+      best = rule;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Whether a param name matches a list entry ("utm_*" matches by prefix)
+ */
+function matchesParam(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) =>
+    pattern.endsWith("*")
+      ? name.startsWith(pattern.slice(0, -1))
+      : name === pattern
+  );
+}
+
 /**
  * Normalize URL for consistent hashing
- * - Lowercase
- * - Remove trailing slashes
- * - Remove common tracking parameters
+ * - Lowercase (host always; path and query unless the rules say the path
+ *   is case sensitive)
+ * - Remove trailing slashes and the fragment
+ * - Remove tracking parameters (built-in list, adjusted by the rules)
+ * - Swap aliased hosts for their target (e.g. m.example.com)
  */
-function normalizeUrl(url: string): string {
+export function normalizeUrl(
+  url: string,
+  rules: UrlNormalizationRule[] = []
+): string {
   try {
     const parsed = new URL(url);
 
-    // Remove common tracking parameters
-    const trackingParams = [
-      "utm_source",
-      "utm_medium",
-      "utm_campaign",
-      "utm_term",
-      "utm_content",
-      "ref",
-      "source",
-      "fbclid",
-      "gclid",
-    ];
-
-    trackingParams.forEach((param) => {
-      parsed.searchParams.delete(param);
-    });
+    const globalRule = rules.find((r) => r.host === GLOBAL_RULE_HOST) ?? null;
+
+    let host = parsed.host.toLowerCase();
+    const aliasOf = findHostRule(parsed.hostname.toLowerCase(), rules)?.aliasOf;
+    if (aliasOf) {
+      host = parsed.port ? `${aliasOf}:${parsed.port}` : aliasOf;
+    }
+    const hostRule = findHostRule(host.replace(/:\d+$/, ""), rules);
+
+    // Each layer adds params to strip, then exempts the ones it keeps
+    let strip = (name: string) => DEFAULT_TRACKING_PARAMS.includes(name);
+    for (const rule of [globalRule, hostRule]) {
+      if (!rule) continue;
+      const inner = strip;
+      strip = (name) =>
+        !matchesParam(name, rule.keepParams) &&
+        (matchesParam(name, rule.stripParams) || inner(name));
+    }
+
+    Array.from(parsed.searchParams.keys())
+      .filter(strip)
+      .forEach((param) => {
+        parsed.searchParams.delete(param);
+      });
 
     // Rebuild URL without fragment
-    let normalized = `${parsed.protocol}//${parsed.host}${parsed.pathname}`;
+    let path = parsed.pathname;
 
     // Add remaining search params if any
     const remainingParams = parsed.searchParams.toString();
     if (remainingParams) {
-      normalized += `?${remainingParams}`;
+      path += `?${remainingParams}`;
+    }
+
+    const caseSensitive =
+      hostRule?.caseSensitivePath ?? globalRule?.caseSensitivePath ?? false;
+    if (!caseSensitive) {
+      path = path.toLowerCase();
     }
 
-    // Lowercase and remove trailing slash
-    return normalized.toLowerCase().replace(/\/$/, "");
+    // Remove trailing slash
+    return `${parsed.protocol}//${host}${path}`.replace(/\/$/, "");
   } catch {
     // If URL parsing fails, just lowercase and trim
     return url.toLowerCase().trim();
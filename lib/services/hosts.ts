@@ -0,0 +1,74 @@
+/**
+ * Public host checks
+ * URLs that come from users (feeds) are fetched by the server, so they
+ * must not reach loopback, private or link-local addresses - the database,
+ * cloud metadata endpoints and the like
+ */
+
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+
+// ============================================
+// Addresses
+// ============================================
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split(".").map(Number);
+  return (
+    a === 0 || // "This" network
+    a === 10 ||
+    a === 127 || // Loopback
+    (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+    (a === 169 && b === 254) || // Link-local, cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224 // Multicast and reserved
+  );
+}
+
+/**
+ * Whether an IP address is anything but a public unicast one
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) return isPrivateIPv4(address);
+
+  const lower = address.toLowerCase();
+  // IPv4-mapped, dotted or as URLs write it ("::ffff:7f00:1")
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateIPv4(mapped[1]);
+  const mappedHex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = mappedHex.slice(1).map((h) => parseInt(h, 16));
+    return isPrivateIPv4(
+      [high >> 8, high & 255, low >> 8, low & 255].join(".")
+    );
+  }
+
+  return (
+    lower === "::" ||
+    lower === "::1" ||
+    /^f[cd]/.test(lower) || // Unique local
+    /^fe[89ab]/.test(lower) || // Link-local
+    lower.startsWith("ff") // Multicast
+  );
+}
+
+/**
+ * Reject URLs that aren't http(s) or whose host resolves to a
+ * non-public address
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const parsed = new URL(url);
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error(`Unsupported URL scheme "${parsed.protocol}"`);
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host)
+    ? [host]
+    : (await lookup(host, { all: true })).map((a) => a.address);
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error(`${parsed.hostname} is not a public host`);
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Push ingestion
+ * Articles submitted to /api/ingest (internal scrapers, the Slack bot) go
+ * through the same dedup and tagging as fetched ones
+ */
+
+import { timingSafeEqual } from "crypto";
+import { z } from "zod";
+import {
+  emptyResult,
+  mergeFetchResult,
+  seedTopics,
+  storeFetchedArticles,
+  type FetchResult,
+} from "./fetcher";
+import { parseLanguageTag, type SourceArticle } from "./sources";
+import { getTaggingRules } from "./rules";
+import { isTopicSlug } from "./tagger";
+
+// ============================================
+// Schema
+// ============================================
+
+// Articles accepted per request
+export const MAX_INGEST_BATCH = 100;
+
+export const ingestArticleSchema = z.object({
+  title: z.string().trim().min(1).max(1000),
+  url: z
+    .string()
+    .url()
+    .refine((u) => /^https?:\/\//i.test(u), "URL must be http(s)"),
+  description: z.string().max(5000).nullish(),
+  content: z.string().max(200_000).nullish(),
+  publishedAt: z.string().datetime({ offset: true }).nullish(), // Default: now
+  publisher: z.string().max(255).nullish(),
+  // Used when the keyword rules aren't confident
+  // Checked against the stored topics by findUnknownTopics
+  topic: z.string().trim().min(1).max(50).nullish(),
+  imageUrl: z.string().url().nullish(),
+  author: z.string().max(255).nullish(),
+  language: z.string().max(10).nullish(), // e.g. "en" or "en-US"
+});
+
+// A single article, or { articles: [...] }
+export const ingestPayloadSchema = z.union([
+  ingestArticleSchema,
+  z.object({
+    articles: z.array(ingestArticleSchema).min(1).max(MAX_INGEST_BATCH),
+  }),
+]);
+
+export type IngestArticle = z.infer<typeof ingestArticleSchema>;
+export type IngestPayload = z.infer<typeof ingestPayloadSchema>;
+
+// ============================================
+// Auth
+// ============================================
+
+/**
+ * Check the request carries `Authorization: Bearer <INGEST_API_KEY>`
+ * Throws when no key is configured.
+ */
+export function isAuthorizedIngestRequest(request: Request): boolean {
+  const key = process.env.INGEST_API_KEY;
+
+  if (!key) {
+    throw new Error("INGEST_API_KEY environment variable is not set");
+  }
+
+  const header = request.headers.get("authorization") ?? "";
+  const expected = Buffer.from(`Bearer ${key}`);
+  const actual = Buffer.from(header);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// ============================================
+// Topics
+// ============================================
+
+function payloadItems(payload: IngestPayload): IngestArticle[] {
+  return "articles" in payload ? payload.articles : [payload];
+}
+
+/**
+ * Topic slugs in a payload that name no topic
+ * Topics editors added count too; on a miss the rules are re-read in case
+ * another process just added it.
+ */
+export async function findUnknownTopics(
+  payload: IngestPayload
+): Promise<string[]> {
+  // Built-in topics are seeded on ingestion if missing
+  const custom = new Set(
+    payloadItems(payload).flatMap((item) =>
+      item.topic && !isTopicSlug(item.topic) ? [item.topic] : []
+    )
+  );
+  if (custom.size === 0) return [];
+
+  const missing = async (fresh: boolean) => {
+    const known = new Set(
+      (await getTaggingRules({ fresh })).map((r) => r.slug)
+    );
+    return Array.from(custom).filter((slug) => !known.has(slug));
+  };
+
+  const cached = await missing(false);
+  return cached.length === 0 ? [] : missing(true);
+}
+
+// ============================================
+// Ingestion
+// ============================================
+
+function toSourceArticle(article: IngestArticle): SourceArticle {
+  const { language, region } = parseLanguageTag(article.language);
+
+  return {
+    title: article.title,
+    description: article.description ?? null,
+    content: article.content ?? null,
+    url: article.url,
+    imageUrl: article.imageUrl ?? null,
+    author: article.author ?? null,
+    publisherName: article.publisher ?? null,
+    publishedAt: article.publishedAt
+      ? new Date(article.publishedAt)
+      : new Date(),
+    language,
+    region,
+  };
+}
+
+/**
+ * Dedup, tag and store submitted articles
+ * Articles naming a topic are stored in one batch per topic, with that
+ * topic as the fallback when the keyword rules aren't confident -
+ * check the topics exist first with findUnknownTopics
+ */
+export async function ingestArticles(
+  payload: IngestPayload,
+  options: { useAI?: boolean; extractContent?: boolean } = {}
+): Promise<FetchResult> {
+  const byTopic = new Map<string | null, SourceArticle[]>();
+  for (const item of payloadItems(payload)) {
+    const topic = item.topic ?? null;
+    const batch = byTopic.get(topic) ?? [];
+    batch.push(toSourceArticle(item));
+    byTopic.set(topic, batch);
+  }
+
+  // Topic hints need the topic rows to exist
+  await seedTopics();
+
+  const result = emptyResult();
+  for (const [topicHint, batch] of byTopic) {
+    mergeFetchResult(
+      result,
+      await storeFetchedArticles(batch, "webhook", { ...options, topicHint })
+    );
+  }
+
+  return result;
+}
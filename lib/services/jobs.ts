@@ -0,0 +1,512 @@
+/**
+ * Background job queue
+ * Postgres-backed: workers claim jobs with FOR UPDATE SKIP LOCKED, failed
+ * jobs are retried with exponential backoff and dead-lettered when out of
+ * attempts. A dedupe key keeps e.g. one digest job per topic and day.
+ */
+
+import { createHash, randomUUID } from "crypto";
+import { db } from "@/db";
+import { jobs, type Job } from "@/db/schema";
+import { and, count, desc, eq, inArray, lt, lte, or, sql } from "drizzle-orm";
+import {
+  attachDigestImage,
+  generateDailyDigest,
+  type GenerateDigestResult,
+} from "./digest";
+import { clusterRecentArticles } from "./clusters";
+import { fetchAndStoreArticles, retagArticle } from "./fetcher";
+import { backfillLegacyLabels } from "./labels";
+import { rehashArticles } from "./normalization";
+import { retagArticles, type RetagFilter, type RetagTotals } from "./retag";
+import type { FetchTrigger } from "./runs";
+import { attachRecentArticles } from "./stories";
+import type { SourceName } from "./sources";
+
+// ============================================
+// Types
+// ============================================
+
+export interface JobPayloads {
+  fetch: {
+    maxArticles?: number;
+    useAI?: boolean;
+    sources?: SourceName[];
+    extractContent?: boolean;
+    canonicalize?: boolean;
+    topicQueries?: boolean;
+    trigger?: FetchTrigger;
+  };
+  digest: {
+    topicId: string | null;
+    date?: string; // ISO, defaults to today
+    forceRegenerate?: boolean;
+    maxArticles?: number;
+    language?: string | null; // null = all languages
+  };
+  digests: {
+    date?: string; // ISO, defaults to today
+    forceRegenerate?: boolean;
+    language?: string | null;
+  };
+  "digest-image": { digestId: string };
+  "tag-article": { articleId: string };
+  "rehash-urls": { afterId?: string | null }; // Continues in ID order
+  "cluster-articles": { hours?: number }; // Unclustered articles this recent
+  "attach-stories": { hours?: number }; // Articles this recent with no story
+  "backfill-labels": Record<string, never>; // Articles tagged before labels
+  // Re-runs the tagger over matching articles, continuing in ID order;
+  // totals carry the counts of the batches before
+  retag: { filter: RetagFilter; afterId?: string | null; totals?: RetagTotals };
+}
+
+export type JobKind = keyof JobPayloads;
+
+export const JOB_KINDS = [
+  "fetch",
+  "digest",
+  "digests",
+  "digest-image",
+  "tag-article",
+  "rehash-urls",
+  "cluster-articles",
+  "attach-stories",
+  "backfill-labels",
+  "retag",
+] as const satisfies readonly JobKind[];
+
+export type JobStatus = Job["status"];
+
+export interface EnqueueOptions {
+  dedupeKey?: string | null; // Defaults per kind, null to allow duplicates
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+export interface EnqueueResult {
+  jobId: string;
+  deduplicated: boolean; // An equivalent job was already pending or running
+}
+
+export interface RunJobsResult {
+  workerId: string;
+  processed: number;
+  completed: number;
+  retried: number;
+  dead: number;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+// A running job not finished after this long is assumed to have crashed
+const STALE_JOB_MS = 15 * 60 * 1000;
+
+// ============================================
+// Handlers
+// ============================================
+
+function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function defaultDedupeKey(
+  kind: JobKind,
+  payload: Record<string, unknown>
+): string | null {
+  const day = utcDay(
+    typeof payload.date === "string" ? new Date(payload.date) : new Date()
+  );
+
+  switch (kind) {
+    case "fetch":
+      return "fetch";
+    case "digest":
+      return `digest:${payload.topicId ?? "global"}:${payload.language ?? "all"}:${day}`;
+    case "digests":
+      return `digests:${payload.language ?? "all"}:${day}`;
+    case "digest-image":
+      return `digest-image:${payload.digestId}`;
+    case "tag-article":
+      return `tag-article:${payload.articleId}`;
+    case "rehash-urls":
+      return `rehash-urls:${payload.afterId ?? "start"}`;
+    case "cluster-articles":
+      return "cluster-articles";
+    case "attach-stories":
+      return "attach-stories";
+    case "backfill-labels":
+      return "backfill-labels";
+    case "retag": {
+      // Same filter, same run - hashed to fit the key
+      const filter = createHash("sha1")
+        .update(JSON.stringify(payload.filter))
+        .digest("hex")
+        .slice(0, 12);
+      return `retag:${filter}:${payload.afterId ?? "start"}`;
+    }
+    default:
+      return null;
+  }
+}
+
+const JOB_HANDLERS: {
+  [K in JobKind]: (payload: JobPayloads[K]) => Promise<unknown>;
+} = {
+  fetch: (payload) =>
+    fetchAndStoreArticles({ ...payload, trigger: payload.trigger ?? "manual" }),
+
+  // Text first; the image is its own job so a DALL-E failure doesn't
+  // throw away the digest
+  digest: async (payload): Promise<GenerateDigestResult | null> => {
+    const result = await generateDailyDigest({
+      topicId: payload.topicId,
+      date: payload.date ? new Date(payload.date) : new Date(),
+      forceRegenerate: payload.forceRegenerate,
+      maxArticles: payload.maxArticles,
+      withImage: false,
+      language: payload.language,
+    });
+
+    if (result?.isNew) {
+      await enqueueJob("digest-image", { digestId: result.digestId });
+    }
+
+    return result;
+  },
+
+  // Fans out into one digest job per topic plus the global one
+  digests: async (payload) => {
+    const allTopics = await db.query.topics.findMany();
+    const topicIds = [null, ...allTopics.map((t) => t.id)];
+
+    const queued = await Promise.all(
+      topicIds.map((topicId) =>
+        enqueueJob("digest", {
+          topicId,
+          date: payload.date,
+          forceRegenerate: payload.forceRegenerate,
+          language: payload.language,
+        })
+      )
+    );
+
+    return { jobIds: queued.map((q) => q.jobId) };
+  },
+
+  "digest-image": async (payload) => ({
+    imageUrl: await attachDigestImage(payload.digestId),
+  }),
+
+  "tag-article": (payload) => retagArticle(payload.articleId),
+
+  // One batch per job, queueing the next so each stays short
+  "rehash-urls": async (payload) => {
+    const result = await rehashArticles(payload.afterId ?? null);
+
+    const next = result.nextAfterId
+      ? await enqueueJob("rehash-urls", { afterId: result.nextAfterId })
+      : null;
+
+    return { ...result, nextJobId: next?.jobId ?? null };
+  },
+
+  "cluster-articles": (payload) => clusterRecentArticles(payload.hours),
+
+  "attach-stories": (payload) => attachRecentArticles(payload.hours),
+
+  "backfill-labels": () => backfillLegacyLabels(),
+
+  retag: async (payload) => {
+    const result = await retagArticles(
+      payload.filter,
+      payload.afterId ?? null,
+      payload.totals
+    );
+
+    const next = result.nextAfterId
+      ? await enqueueJob("retag", {
+          filter: payload.filter,
+          afterId: result.nextAfterId,
+          totals: result.totals,
+        })
+      : null;
+
+    return { ...result, nextJobId: next?.jobId ?? null };
+  },
+};
+
+// ============================================
+// Enqueue
+// ============================================
+
+/**
+ * Add a job to the queue
+ * Returns the existing job instead when one with the same dedupe key is
+ * still pending or running
+ */
+export async function enqueueJob<K extends JobKind>(
+  kind: K,
+  payload: JobPayloads[K],
+  options: EnqueueOptions = {}
+): Promise<EnqueueResult> {
+  const data = payload as Record<string, unknown>;
+  const dedupeKey =
+    options.dedupeKey === undefined
+      ? defaultDedupeKey(kind, data)
+      : options.dedupeKey;
+
+  const [inserted] = await db
+    .insert(jobs)
+    .values({
+      kind,
+      payload: data,
+      dedupeKey,
+      runAt: options.runAt ?? new Date(),
+      maxAttempts: options.maxAttempts ?? 5,
+    })
+    .onConflictDoNothing({
+      target: jobs.dedupeKey,
+      where: sql`${jobs.status} in ('pending', 'running')`,
+    })
+    .returning({ id: jobs.id });
+
+  if (inserted) {
+    return { jobId: inserted.id, deduplicated: false };
+  }
+
+  const existing = await db.query.jobs.findFirst({
+    where: and(
+      eq(jobs.dedupeKey, dedupeKey!),
+      inArray(jobs.status, ["pending", "running"])
+    ),
+  });
+
+  if (!existing) {
+    // The other job finished between the insert and this lookup
+    return enqueueJob(kind, payload, options);
+  }
+
+  return { jobId: existing.id, deduplicated: true };
+}
+
+// ============================================
+// Worker
+// ============================================
+
+/**
+ * Lock the next due job for this worker
+ * SKIP LOCKED lets concurrent workers claim different jobs without waiting
+ */
+async function claimNextJob(workerId: string): Promise<Job | null> {
+  const now = new Date();
+
+  const next = db
+    .select({ id: jobs.id })
+    .from(jobs)
+    .where(
+      or(
+        and(eq(jobs.status, "pending"), lte(jobs.runAt, now)),
+        and(
+          eq(jobs.status, "running"),
+          lt(jobs.lockedAt, new Date(now.getTime() - STALE_JOB_MS))
+        )
+      )
+    )
+    .orderBy(jobs.runAt)
+    .limit(1)
+    .for("update", { skipLocked: true });
+
+  const [job] = await db
+    .update(jobs)
+    .set({
+      status: "running",
+      lockedAt: now,
+      lockedBy: workerId,
+      attempts: sql`${jobs.attempts} + 1`,
+      updatedAt: now,
+    })
+    .where(inArray(jobs.id, next))
+    .returning();
+
+  return job ?? null;
+}
+
+function retryDelay(attempts: number): number {
+  const backoff = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+  // Jitter so jobs that failed together don't retry together
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+/**
+ * Run one claimed job and record its outcome
+ */
+async function executeJob(job: Job): Promise<"completed" | "retried" | "dead"> {
+  const handler = JOB_HANDLERS[job.kind as JobKind] as
+    ((payload: unknown) => Promise<unknown>) | undefined;
+
+  try {
+    if (!handler) {
+      throw new Error(`Unknown job kind "${job.kind}"`);
+    }
+
+    const result = await handler(job.payload);
+
+    await db
+      .update(jobs)
+      .set({
+        status: "completed",
+        result: result ?? null,
+        lastError: null,
+        lockedAt: null,
+        lockedBy: null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(jobs.id, job.id));
+
+    return "completed";
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const outOfAttempts = !handler || job.attempts >= job.maxAttempts;
+
+    await db
+      .update(jobs)
+      .set({
+        status: outOfAttempts ? "dead" : "pending",
+        runAt: outOfAttempts
+          ? job.runAt
+          : new Date(Date.now() + retryDelay(job.attempts)),
+        lastError: message,
+        lockedAt: null,
+        lockedBy: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(jobs.id, job.id));
+
+    console.error(`[Jobs] ${job.kind} ${job.id} failed: ${message}`);
+    return outOfAttempts ? "dead" : "retried";
+  }
+}
+
+/**
+ * Work through due jobs until the queue is empty, maxJobs have run or the
+ * time budget is spent (checked between jobs)
+ */
+export async function runJobs(
+  options: { maxJobs?: number; timeBudgetMs?: number; workerId?: string } = {}
+): Promise<RunJobsResult> {
+  const {
+    maxJobs = 20,
+    timeBudgetMs = 4 * 60 * 1000,
+    workerId = `worker-${randomUUID().slice(0, 8)}`,
+  } = options;
+  const deadline = Date.now() + timeBudgetMs;
+
+  const result: RunJobsResult = {
+    workerId,
+    processed: 0,
+    completed: 0,
+    retried: 0,
+    dead: 0,
+  };
+
+  while (result.processed < maxJobs && Date.now() < deadline) {
+    const job = await claimNextJob(workerId);
+    if (!job) break;
+
+    const outcome = await executeJob(job);
+    result.processed++;
+    result[outcome]++;
+  }
+
+  return result;
+}
+
+/**
+ * Put a dead job back in the queue with a fresh set of attempts
+ */
+export async function retryJob(id: string): Promise<Job> {
+  const [job] = await db
+    .update(jobs)
+    .set({
+      status: "pending",
+      attempts: 0,
+      runAt: new Date(),
+      lockedAt: null,
+      lockedBy: null,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(jobs.id, id), eq(jobs.status, "dead")))
+    .returning();
+
+  if (!job) {
+    throw new Error("Only dead jobs can be retried");
+  }
+
+  return job;
+}
+
+// ============================================
+// Queries
+// ============================================
+
+export async function getJob(id: string) {
+  const job = await db.query.jobs.findFirst({
+    where: eq(jobs.id, id),
+  });
+  return job ?? null;
+}
+
+export async function listJobs(
+  options: {
+    status?: JobStatus;
+    kind?: JobKind;
+    limit?: number;
+    offset?: number;
+  } = {}
+) {
+  const { status, kind, limit = 20, offset = 0 } = options;
+
+  const where = and(
+    status ? eq(jobs.status, status) : undefined,
+    kind ? eq(jobs.kind, kind) : undefined
+  );
+
+  const [items, [{ total }]] = await Promise.all([
+    db.query.jobs.findMany({
+      where,
+      orderBy: [desc(jobs.createdAt)],
+      limit,
+      offset,
+    }),
+    db.select({ total: count() }).from(jobs).where(where),
+  ]);
+
+  return { items, total, limit, offset };
+}
+
+/**
+ * Number of jobs in each status
+ */
+export async function getJobCounts(): Promise<Record<JobStatus, number>> {
+  const rows = await db
+    .select({ status: jobs.status, total: count() })
+    .from(jobs)
+    .groupBy(jobs.status);
+
+  const counts: Record<JobStatus, number> = {
+    pending: 0,
+    running: 0,
+    completed: 0,
+    dead: 0,
+  };
+  for (const row of rows) {
+    counts[row.status] = row.total;
+  }
+  return counts;
+}
@@ -0,0 +1,127 @@
+/**
+ * Article topic labels
+ * Every topic an article belongs to (article_topics), next to the primary
+ * one kept on articles.topicId
+ */
+
+import { db } from "@/db";
+import { articles, articleTopics, type NewArticleTopic } from "@/db/schema";
+import { and, eq, inArray, isNotNull, notExists, type SQL } from "drizzle-orm";
+import type { TopicLabel } from "./tagger";
+
+// ============================================
+// Labels
+// ============================================
+
+/**
+ * Rows for an article's labels
+ * Labels for topics missing from the database are skipped.
+ */
+export function labelRows(
+  articleId: string,
+  labels: TopicLabel[],
+  topicMap: Map<string, string>
+): NewArticleTopic[] {
+  return labels.flatMap((label) => {
+    const topicId = topicMap.get(label.topicSlug);
+    return topicId
+      ? [
+          {
+            articleId,
+            topicId,
+            confidence: label.confidence,
+            source: label.source,
+          },
+        ]
+      : [];
+  });
+}
+
+/**
+ * Condition for articles labeled with a topic, primary or not
+ */
+export function labeledWith(topicId: string): SQL {
+  return inArray(
+    articles.id,
+    db
+      .select({ articleId: articleTopics.articleId })
+      .from(articleTopics)
+      .where(eq(articleTopics.topicId, topicId))
+  );
+}
+
+/**
+ * Store labels of newly inserted articles
+ */
+export async function insertArticleTopics(
+  rows: NewArticleTopic[]
+): Promise<void> {
+  if (rows.length === 0) return;
+  await db.insert(articleTopics).values(rows).onConflictDoNothing();
+}
+
+/**
+ * Replace all of an article's labels
+ */
+export async function replaceArticleTopics(
+  articleId: string,
+  rows: NewArticleTopic[]
+): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(articleTopics)
+      .where(eq(articleTopics.articleId, articleId));
+    if (rows.length > 0) {
+      await tx.insert(articleTopics).values(rows);
+    }
+  });
+}
+
+// ============================================
+// Backfill
+// ============================================
+
+const BACKFILL_BATCH_SIZE = 1000;
+
+/**
+ * Give articles tagged before labels existed a "legacy" label for their
+ * topicId, so queries through article_topics still find them
+ */
+export async function backfillLegacyLabels(): Promise<{ labeled: number }> {
+  let labeled = 0;
+
+  for (;;) {
+    const batch = await db
+      .select({ articleId: articles.id, topicId: articles.topicId })
+      .from(articles)
+      .where(
+        and(
+          isNotNull(articles.topicId),
+          notExists(
+            db
+              .select({ articleId: articleTopics.articleId })
+              .from(articleTopics)
+              .where(eq(articleTopics.articleId, articles.id))
+          )
+        )
+      )
+      .limit(BACKFILL_BATCH_SIZE);
+
+    if (batch.length === 0) break;
+
+    await db
+      .insert(articleTopics)
+      .values(
+        batch.map((row) => ({
+          articleId: row.articleId,
+          topicId: row.topicId!,
+          source: "legacy" as const,
+        }))
+      )
+      .onConflictDoNothing();
+
+    labeled += batch.length;
+  }
+
+  return { labeled };
+}
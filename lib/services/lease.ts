@@ -0,0 +1,83 @@
+/**
+ * Named leases
+ * A lightweight database lock so a scheduled task called twice at once
+ * only runs once; leases expire so a crashed holder can't block forever
+ */
+
+import { randomUUID } from "crypto";
+import { db } from "@/db";
+import { leases } from "@/db/schema";
+import { and, eq, lt } from "drizzle-orm";
+
+// ============================================
+// Types
+// ============================================
+
+export type LeaseOutcome<T> =
+  { acquired: true; value: T } | { acquired: false; expiresAt: Date | null };
+
+// ============================================
+// Leases
+// ============================================
+
+/**
+ * Take the lease if it's free or expired
+ * Returns a holder token to release it with, or null when someone else has it
+ */
+export async function acquireLease(
+  name: string,
+  ttlMs: number
+): Promise<string | null> {
+  const holder = randomUUID();
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + ttlMs);
+
+  // Single statement so two callers can't both win
+  const [row] = await db
+    .insert(leases)
+    .values({ name, holder, acquiredAt: now, expiresAt })
+    .onConflictDoUpdate({
+      target: leases.name,
+      set: { holder, acquiredAt: now, expiresAt },
+      setWhere: lt(leases.expiresAt, now),
+    })
+    .returning({ holder: leases.holder });
+
+  return row?.holder ?? null;
+}
+
+/**
+ * Give the lease back early - a no-op if it has since been taken over
+ */
+export async function releaseLease(
+  name: string,
+  holder: string
+): Promise<void> {
+  await db
+    .delete(leases)
+    .where(and(eq(leases.name, name), eq(leases.holder, holder)));
+}
+
+/**
+ * Run a task while holding a lease, skipping it when the lease is taken
+ */
+export async function withLease<T>(
+  name: string,
+  ttlMs: number,
+  task: () => Promise<T>
+): Promise<LeaseOutcome<T>> {
+  const holder = await acquireLease(name, ttlMs);
+
+  if (!holder) {
+    const current = await db.query.leases.findFirst({
+      where: eq(leases.name, name),
+    });
+    return { acquired: false, expiresAt: current?.expiresAt ?? null };
+  }
+
+  try {
+    return { acquired: true, value: await task() };
+  } finally {
+    await releaseLease(name, holder);
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Keyword matcher for the rule tagger
+ * Matches keywords and phrases on whole words ("ev" no longer matches
+ * "every"), weighs them by where they appear and lets negative keywords
+ * count against a topic ("securities" against Cybersecurity). Negatives
+ * subtract their weighted evidence rather than veto outright, so a passing
+ * mention doesn't undo an article that is clearly about the topic.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type MatchField = "title" | "description" | "content";
+
+export interface KeywordRule {
+  keyword: string; // One word or a phrase
+  weight: number; // Evidence a match adds, 1 = an ordinary keyword
+  negative: boolean; // A match takes its evidence away instead
+}
+
+// One rule that fired, at the strongest field it appeared in
+export interface KeywordMatch {
+  keyword: string;
+  weight: number;
+  field: MatchField;
+  negative: boolean;
+}
+
+export interface TopicScore {
+  evidence: number; // Weight x field weight of positive matches, less negatives'
+  confidence: number; // 0-1, from the evidence
+  matches: KeywordMatch[]; // Every rule that fired, negatives included
+  cancelled: boolean; // Negative keywords matched and left no evidence
+}
+
+// ============================================
+// Constants
+// ============================================
+
+// A headline mention says more than one deep in the body
+const FIELD_WEIGHTS: Record<MatchField, number> = {
+  title: 2,
+  description: 1,
+  content: 0.5,
+};
+
+// Evidence that gives ~0.34 confidence: one ordinary keyword in the
+// description. Two in the title are ~0.81, certainty is approached after.
+const EVIDENCE_SCALE = 2.4;
+
+// ============================================
+// Tokens
+// ============================================
+
+// Words ending in "s" that aren't plurals, or whose singular is another
+// word ("windows", "news") - listed, since "GPUs" and "APIs" are plurals
+const UNFOLDED = new Set([
+  "news",
+  "windows",
+  "series",
+  "species",
+  "physics",
+  "economics",
+  "politics",
+  "ethics",
+  "status",
+  "virus",
+  "campus",
+  "bonus",
+  "focus",
+  "census",
+  "consensus",
+  "crisis",
+  "analysis",
+  "basis",
+  "thesis",
+  "diagnosis",
+]);
+
+// A plural's singular, other words as they are
+function singular(word: string): string {
+  return word.length > 3 &&
+    word.endsWith("s") &&
+    !word.endsWith("ss") &&
+    !UNFOLDED.has(word)
+    ? word.slice(0, -1)
+    : word;
+}
+
+/**
+ * Words of a text: lowercased, accents and punctuation dropped
+ * Punctuation splits words, so "node.js" and "node js" both read as two.
+ */
+export function tokenize(text: string): string[] {
+  return (
+    text
+      .normalize("NFKD")
+      .replace(/\p{M}/gu, "")
+      .toLowerCase()
+      .replace(/'s\b/g, "")
+      .match(/[\p{L}\p{N}]+/gu) ?? []
+  );
+}
+
+// An article's fields, tokenized once for every topic's rules
+export type TokenizedFields = Partial<Record<MatchField, string[]>>;
+
+export function tokenizeFields(
+  fields: Partial<Record<MatchField, string | undefined>>
+): TokenizedFields {
+  const tokenized: TokenizedFields = {};
+  for (const [field, text] of Object.entries(fields)) {
+    if (text) tokenized[field as MatchField] = tokenize(text);
+  }
+  return tokenized;
+}
+
+/**
+ * Whether a text word reads as a keyword word: itself, or its plural
+ * ("hackers" for "hacker")
+ * Only the text side is folded, so a keyword ending in "s" matches just
+ * itself - "mars" isn't found in "Mar 12".
+ */
+function matchesWord(word: string, keywordWord: string): boolean {
+  return word === keywordWord || singular(word) === keywordWord;
+}
+
+/**
+ * Whether a phrase's words appear in a row
+ */
+export function containsPhrase(words: string[], phrase: string[]): boolean {
+  if (phrase.length === 0) return false;
+
+  for (let i = 0; i <= words.length - phrase.length; i++) {
+    let j = 0;
+    while (j < phrase.length && matchesWord(words[i + j], phrase[j])) j++;
+    if (j === phrase.length) return true;
+  }
+  return false;
+}
+
+// ============================================
+// Scoring
+// ============================================
+
+/**
+ * Score one topic's rules against an article
+ */
+export function scoreTopic(
+  fields: TokenizedFields,
+  rules: KeywordRule[]
+): TopicScore {
+  const matches: KeywordMatch[] = [];
+
+  for (const rule of rules) {
+    const phrase = tokenize(rule.keyword);
+
+    // Fields strongest first, so a match is credited at its best
+    const field = (Object.keys(FIELD_WEIGHTS) as MatchField[]).find(
+      (f) => fields[f] && containsPhrase(fields[f], phrase)
+    );
+    if (!field) continue;
+
+    matches.push({
+      keyword: rule.keyword,
+      weight: rule.weight,
+      field,
+      negative: rule.negative,
+    });
+  }
+
+  // Negatives take away what positives add, so a passing "Social Security"
+  // or "securities" doesn't undo a data breach story
+  const evidence = Math.max(
+    matches.reduce(
+      (sum, m) =>
+        sum + (m.negative ? -1 : 1) * m.weight * FIELD_WEIGHTS[m.field],
+      0
+    ),
+    0
+  );
+  const cancelled = evidence === 0 && matches.some((m) => m.negative);
+
+  return {
+    evidence,
+    confidence: 1 - Math.exp(-evidence / EVIDENCE_SCALE),
+    matches,
+    cancelled,
+  };
+}
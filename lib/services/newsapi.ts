@@ -0,0 +1,101 @@
+/**
+ * NewsAPI Client
+ * Docs: https://newsapi.org/docs/endpoints/everything
+ */
+
+import { resilientFetch, SERVER_ERROR_STATUSES } from "./resilience";
+
+// ============================================
+// Types
+// ============================================
+
+export interface NewsApiArticle {
+  source: {
+    id: string | null;
+    name: string;
+  };
+  author: string | null;
+  title: string;
+  description: string | null;
+  url: string;
+  urlToImage: string | null;
+  publishedAt: string; // ISO 8601
+  content: string | null;
+}
+
+export interface NewsApiResponse {
+  status: string;
+  totalResults: number;
+  articles: NewsApiArticle[];
+}
+
+export interface NewsApiFetchOptions {
+  query?: string;
+  lang?: string;
+  max?: number; // 1-100, default 20
+  from?: Date;
+  to?: Date;
+  page?: number; // 1-based
+}
+
+// ============================================
+// Client
+// ============================================
+
+const NEWSAPI_BASE_URL = "https://newsapi.org/v2";
+
+// Default: fetch articles from last 24 hours
+const DEFAULT_HOURS_AGO = 24;
+
+/**
+ * Fetch tech news from the NewsAPI everything endpoint
+ * The everything endpoint has no country filter, only language
+ */
+export async function fetchNewsApiEverything(
+  options: NewsApiFetchOptions = {}
+): Promise<NewsApiResponse> {
+  const apiKey = process.env.NEWSAPI_API_KEY;
+
+  if (!apiKey) {
+    throw new Error("NEWSAPI_API_KEY environment variable is not set");
+  }
+
+  const {
+    query = "technology OR tech OR software OR AI OR startup",
+    lang = "en",
+    max = 20,
+    from = new Date(Date.now() - DEFAULT_HOURS_AGO * 60 * 60 * 1000),
+    to,
+    page = 1,
+  } = options;
+
+  const params = new URLSearchParams({
+    q: query,
+    language: lang,
+    pageSize: max.toString(),
+    sortBy: "publishedAt",
+    from: from.toISOString(),
+    page: page.toString(),
+  });
+
+  if (to) {
+    params.set("to", to.toISOString());
+  }
+
+  const url = `${NEWSAPI_BASE_URL}/everything?${params.toString()}`;
+
+  const response = await resilientFetch(
+    "newsapi",
+    url,
+    { headers: { "X-Api-Key": apiKey } },
+    { retryStatuses: SERVER_ERROR_STATUSES }
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`NewsAPI error (${response.status}): ${error}`);
+  }
+
+  const data: NewsApiResponse = await response.json();
+  return data;
+}
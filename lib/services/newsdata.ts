@@ -0,0 +1,91 @@
+/**
+ * NewsData.io API Client
+ * Docs: https://newsdata.io/documentation
+ */
+
+import { resilientFetch, SERVER_ERROR_STATUSES } from "./resilience";
+
+// ============================================
+// Types
+// ============================================
+
+export interface NewsDataArticle {
+  article_id: string;
+  title: string;
+  link: string;
+  description: string | null;
+  content: string | null;
+  pubDate: string; // "YYYY-MM-DD HH:mm:ss" in UTC
+  image_url: string | null;
+  source_id: string;
+  source_name?: string | null;
+  creator: string[] | null;
+  language: string | null;
+  country: string[] | null;
+}
+
+export interface NewsDataResponse {
+  status: string;
+  totalResults: number;
+  results: NewsDataArticle[];
+  nextPage: string | null;
+}
+
+export interface NewsDataFetchOptions {
+  query?: string;
+  lang?: string;
+  country?: string;
+  max?: number; // 1-50 depending on plan, default 10
+}
+
+// ============================================
+// Client
+// ============================================
+
+const NEWSDATA_BASE_URL = "https://newsdata.io/api/1";
+
+/**
+ * Fetch the latest news from the NewsData.io latest endpoint
+ * The free plan returns at most 10 results per request
+ */
+export async function fetchNewsDataLatest(
+  options: NewsDataFetchOptions = {}
+): Promise<NewsDataResponse> {
+  const apiKey = process.env.NEWSDATA_API_KEY;
+
+  if (!apiKey) {
+    throw new Error("NEWSDATA_API_KEY environment variable is not set");
+  }
+
+  const {
+    query = "technology OR software OR AI OR startup",
+    lang = "en",
+    country = "us",
+    max = 10,
+  } = options;
+
+  const params = new URLSearchParams({
+    apikey: apiKey,
+    q: query,
+    language: lang,
+    country,
+    size: max.toString(),
+  });
+
+  const url = `${NEWSDATA_BASE_URL}/latest?${params.toString()}`;
+
+  const response = await resilientFetch(
+    "newsdata",
+    url,
+    {},
+    { retryStatuses: SERVER_ERROR_STATUSES }
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`NewsData API error (${response.status}): ${error}`);
+  }
+
+  const data: NewsDataResponse = await response.json();
+  return data;
+}
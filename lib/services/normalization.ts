@@ -0,0 +1,265 @@
+/**
+ * URL normalization rules
+ * Stored rules layered over the built-in tracking-param list, a preview of
+ * what a URL hashes to, and the rehash that brings stored articles in line
+ * after the rules change
+ */
+
+import { db } from "@/db";
+import { articles, urlRules, type UrlRule } from "@/db/schema";
+import { asc, eq, gt, inArray } from "drizzle-orm";
+import { findHostRule, hashUrl, normalizeUrl, GLOBAL_RULE_HOST } from "./hash";
+
+// ============================================
+// Types
+// ============================================
+
+export interface UrlRuleInput {
+  host: string; // "*" for every host
+  stripParams?: string[];
+  keepParams?: string[];
+  caseSensitivePath?: boolean | null;
+  aliasOf?: string | null;
+}
+
+export interface UrlPreview {
+  url: string;
+  normalized: string;
+  hash: string;
+  defaultHash: string; // With the built-in rules only
+  rules: UrlRule[]; // Rules that applied: global, host, alias target
+  existing: { id: string; title: string; url: string } | null;
+}
+
+export interface RehashResult {
+  scanned: number;
+  updated: number;
+  conflicts: string[]; // Article IDs whose new hash belongs to another row
+  nextAfterId: string | null; // Continue from here, null when done
+}
+
+// ============================================
+// Rules
+// ============================================
+
+// Rules change rarely and are read for every batch
+const CACHE_TTL_MS = 60_000;
+
+let cache: { rules: UrlRule[]; loadedAt: number } | null = null;
+
+/**
+ * Current rules, cached per process
+ * Pass fresh when another process may have just changed them
+ */
+export async function getUrlRules(
+  options: { fresh?: boolean } = {}
+): Promise<UrlRule[]> {
+  if (!options.fresh && cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+    return cache.rules;
+  }
+
+  const rules = await db.query.urlRules.findMany({
+    orderBy: [asc(urlRules.host)],
+  });
+  cache = { rules, loadedAt: Date.now() };
+  return rules;
+}
+
+/**
+ * Lowercase a host, rejecting anything with a scheme, path or port
+ */
+function normalizeHost(host: string): string {
+  const normalized = host.trim().toLowerCase();
+
+  if (normalized === GLOBAL_RULE_HOST) return normalized;
+  if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(normalized)) {
+    throw new Error(`Invalid host "${host}"`);
+  }
+  return normalized;
+}
+
+function cleanParams(params: string[] | undefined): string[] {
+  return Array.from(
+    new Set((params ?? []).map((p) => p.trim()).filter(Boolean))
+  );
+}
+
+/**
+ * Create or replace the rule for a host
+ */
+export async function upsertUrlRule(input: UrlRuleInput): Promise<UrlRule> {
+  const host = normalizeHost(input.host);
+  const aliasOf = input.aliasOf ? normalizeHost(input.aliasOf) : null;
+
+  if (aliasOf && host === GLOBAL_RULE_HOST) {
+    throw new Error("The global rule can't alias a host");
+  }
+  if (aliasOf === host) {
+    throw new Error("A host can't alias itself");
+  }
+
+  const values = {
+    stripParams: cleanParams(input.stripParams),
+    keepParams: cleanParams(input.keepParams),
+    caseSensitivePath: input.caseSensitivePath ?? null,
+    aliasOf,
+  };
+
+  const [rule] = await db
+    .insert(urlRules)
+    .values({ host, ...values })
+    .onConflictDoUpdate({
+      target: urlRules.host,
+      set: { ...values, updatedAt: new Date() },
+    })
+    .returning();
+
+  cache = null;
+  return rule;
+}
+
+/**
+ * Delete a rule
+ */
+export async function deleteUrlRule(id: string): Promise<boolean> {
+  const deleted = await db
+    .delete(urlRules)
+    .where(eq(urlRules.id, id))
+    .returning({ id: urlRules.id });
+
+  cache = null;
+  return deleted.length > 0;
+}
+
+// ============================================
+// Preview
+// ============================================
+
+/**
+ * What a URL normalizes and hashes to under the current rules, and the
+ * stored article it would dedup against
+ */
+export async function previewUrl(url: string): Promise<UrlPreview> {
+  const rules = await getUrlRules();
+  const hash = hashUrl(url, rules);
+
+  const applied: UrlRule[] = [];
+  const globalRule = rules.find((r) => r.host === GLOBAL_RULE_HOST);
+  if (globalRule) applied.push(globalRule);
+  try {
+    const hostRule = findHostRule(new URL(url).hostname.toLowerCase(), rules);
+    if (hostRule) applied.push(hostRule);
+
+    // An aliased host is then normalized under its target's rule
+    const targetRule = hostRule?.aliasOf
+      ? findHostRule(hostRule.aliasOf, rules)
+      : null;
+    if (targetRule && targetRule !== hostRule) applied.push(targetRule);
+  } catch {
+    // Unparseable URLs are only lowercased
+  }
+
+  const existing = await db.query.articles.findFirst({
+    where: eq(articles.urlHash, hash),
+    columns: { id: true, title: true, url: true },
+  });
+
+  return {
+    url,
+    normalized: normalizeUrl(url, rules),
+    hash,
+    defaultHash: hashUrl(url),
+    rules: applied,
+    existing: existing ?? null,
+  };
+}
+
+// ============================================
+// Rehash
+// ============================================
+
+// Articles rehashed per call - the job queues the next batch itself
+export const REHASH_BATCH_SIZE = 500;
+
+/**
+ * Recompute urlHash (and originalUrlHash) for one batch of articles, in ID
+ * order after `afterId`. Rows whose new hash is taken by another article
+ * keep their old hash and are reported as conflicts.
+ */
+export async function rehashArticles(
+  afterId: string | null = null
+): Promise<RehashResult> {
+  // The worker may run in a process with an older copy cached
+  const rules = await getUrlRules({ fresh: true });
+
+  const batch = await db
+    .select({
+      id: articles.id,
+      url: articles.url,
+      urlHash: articles.urlHash,
+      originalUrl: articles.originalUrl,
+      originalUrlHash: articles.originalUrlHash,
+    })
+    .from(articles)
+    .where(afterId ? gt(articles.id, afterId) : undefined)
+    .orderBy(asc(articles.id))
+    .limit(REHASH_BATCH_SIZE);
+
+  const changed = batch
+    .map((a) => ({
+      ...a,
+      newUrlHash: hashUrl(a.url, rules),
+      newOriginalUrlHash: a.originalUrl ? hashUrl(a.originalUrl, rules) : null,
+    }))
+    .filter(
+      (a) =>
+        a.newUrlHash !== a.urlHash || a.newOriginalUrlHash !== a.originalUrlHash
+    );
+
+  const conflicts: string[] = [];
+  let updated = 0;
+
+  if (changed.length > 0) {
+    // Another row already holding the new hash would violate the unique index
+    const taken = await db
+      .select({ id: articles.id, urlHash: articles.urlHash })
+      .from(articles)
+      .where(
+        inArray(
+          articles.urlHash,
+          changed.map((a) => a.newUrlHash)
+        )
+      );
+    const takenBy = new Map(taken.map((t) => [t.urlHash, t.id]));
+
+    for (const article of changed) {
+      const owner = takenBy.get(article.newUrlHash);
+      if (owner && owner !== article.id) {
+        conflicts.push(article.id);
+        continue;
+      }
+
+      try {
+        await db
+          .update(articles)
+          .set({
+            urlHash: article.newUrlHash,
+            originalUrlHash: article.newOriginalUrlHash,
+          })
+          .where(eq(articles.id, article.id));
+        updated++;
+      } catch {
+        // Taken by an article inserted since the lookup
+        conflicts.push(article.id);
+      }
+    }
+  }
+
+  return {
+    scanned: batch.length,
+    updated,
+    conflicts,
+    nextAfterId:
+      batch.length === REHASH_BATCH_SIZE ? batch[batch.length - 1].id : null,
+  };
+}
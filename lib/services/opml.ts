@@ -0,0 +1,207 @@
+/**
+ * OPML import/export for feed subscriptions
+ * Outline folders map onto topics as the feed's default topic
+ */
+
+import { XMLParser } from "fast-xml-parser";
+import { db } from "@/db";
+import { feeds } from "@/db/schema";
+import { listFeeds } from "./feeds";
+import { attr, child, children, type XmlValue } from "./xml";
+
+// ============================================
+// Types
+// ============================================
+
+export interface OpmlOutline {
+  url: string;
+  title: string | null;
+  siteUrl: string | null;
+  folder: string | null; // Innermost folder the feed was filed under
+}
+
+export interface OpmlImportResult {
+  total: number;
+  added: number;
+  skipped: number; // Already registered
+  unmatchedFolders: string[]; // Folders that don't correspond to a topic
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  parseTagValue: false,
+  parseAttributeValue: false,
+  isArray: (name) => name === "outline",
+});
+
+function collectOutlines(
+  parent: XmlValue,
+  folder: string | null,
+  out: OpmlOutline[]
+): void {
+  for (const node of children(parent, "outline")) {
+    const label = attr(node, "title") ?? attr(node, "text");
+    const xmlUrl = attr(node, "xmlUrl");
+
+    if (xmlUrl) {
+      out.push({
+        url: xmlUrl,
+        title: label,
+        siteUrl: attr(node, "htmlUrl"),
+        folder,
+      });
+    }
+
+    collectOutlines(node, xmlUrl ? folder : label, out);
+  }
+}
+
+/**
+ * Parse the feed outlines out of an OPML document
+ */
+export function parseOpml(xml: string): OpmlOutline[] {
+  const doc: XmlValue = parser.parse(xml);
+
+  const body = child(child(doc, "opml"), "body");
+  if (!body) {
+    throw new Error("Not an OPML document");
+  }
+
+  const outlines: OpmlOutline[] = [];
+  collectOutlines(body, null, outlines);
+  return outlines;
+}
+
+// ============================================
+// Import / Export
+// ============================================
+
+function normalizeLabel(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/&/g, "and")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/**
+ * Register every feed in an OPML document
+ * Feeds already registered are left untouched
+ */
+export async function importOpml(xml: string): Promise<OpmlImportResult> {
+  const outlines = parseOpml(xml);
+
+  // Match folders by topic slug or name, e.g. "Cybersecurity" or "ai-ml"
+  const topicRecords = await db.query.topics.findMany();
+  const topicByLabel = new Map<string, string>();
+  for (const topic of topicRecords) {
+    topicByLabel.set(normalizeLabel(topic.slug), topic.id);
+    topicByLabel.set(normalizeLabel(topic.name), topic.id);
+  }
+
+  const unmatchedFolders = new Set<string>();
+  const seen = new Set<string>();
+  const values = [];
+
+  for (const outline of outlines) {
+    if (seen.has(outline.url) || !/^https?:\/\//i.test(outline.url)) continue;
+    seen.add(outline.url);
+
+    let topicId: string | null = null;
+    if (outline.folder) {
+      topicId = topicByLabel.get(normalizeLabel(outline.folder)) ?? null;
+      if (!topicId) unmatchedFolders.add(outline.folder);
+    }
+
+    values.push({
+      url: outline.url,
+      title: outline.title ?? outline.url,
+      siteUrl: outline.siteUrl,
+      topicId,
+    });
+  }
+
+  const inserted = values.length
+    ? await db
+        .insert(feeds)
+        .values(values)
+        .onConflictDoNothing({ target: feeds.url })
+        .returning({ id: feeds.id })
+    : [];
+
+  return {
+    total: values.length,
+    added: inserted.length,
+    skipped: values.length - inserted.length,
+    unmatchedFolders: [...unmatchedFolders],
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function feedOutline(
+  feed: { url: string; title: string | null; siteUrl: string | null },
+  indent: string
+): string {
+  const title = escapeXml(feed.title ?? feed.url);
+  const htmlUrl = feed.siteUrl ? ` htmlUrl="${escapeXml(feed.siteUrl)}"` : "";
+  return `${indent}<outline type="rss" text="${title}" title="${title}" xmlUrl="${escapeXml(feed.url)}"${htmlUrl}/>`;
+}
+
+/**
+ * Export registered feeds as OPML, one folder per topic
+ */
+export async function exportOpml(): Promise<string> {
+  const allFeeds = await listFeeds();
+
+  const folders = new Map<string, typeof allFeeds>();
+  const unfiled: typeof allFeeds = [];
+
+  for (const feed of allFeeds) {
+    if (feed.topic) {
+      const folder = folders.get(feed.topic.name) ?? [];
+      folder.push(feed);
+      folders.set(feed.topic.name, folder);
+    } else {
+      unfiled.push(feed);
+    }
+  }
+
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<opml version="2.0">`,
+    `  <head>`,
+    `    <title>News feed subscriptions</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    `  </head>`,
+    `  <body>`,
+  ];
+
+  for (const [name, folderFeeds] of folders) {
+    const label = escapeXml(name);
+    lines.push(`    <outline text="${label}" title="${label}">`);
+    for (const feed of folderFeeds) {
+      lines.push(feedOutline(feed, "      "));
+    }
+    lines.push(`    </outline>`);
+  }
+
+  for (const feed of unfiled) {
+    lines.push(feedOutline(feed, "    "));
+  }
+
+  lines.push(`  </body>`, `</opml>`);
+
+  return lines.join("\n");
+}
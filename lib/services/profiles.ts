@@ -0,0 +1,146 @@
+/**
+ * Ingestion profiles
+ * Each enabled profile runs the general provider query in its own
+ * language and region
+ */
+
+import { db } from "@/db";
+import { ingestionProfiles, type IngestionProfile } from "@/db/schema";
+import { asc, eq } from "drizzle-orm";
+import { DEFAULT_COUNTRY, DEFAULT_LANGUAGE } from "./sources";
+
+// ============================================
+// Types
+// ============================================
+
+export interface ProfileQuery {
+  name: string;
+  language: string;
+  country: string;
+  query: string | null; // null = the source's default query
+  maxArticles: number | null; // Per source, null = the run's max
+  scope: string | null; // Watermark scope, null for the built-in default
+}
+
+// Used when no profile is enabled, and keeps the pre-profile watermarks
+const DEFAULT_PROFILE: ProfileQuery = {
+  name: "default",
+  language: DEFAULT_LANGUAGE,
+  country: DEFAULT_COUNTRY,
+  query: null,
+  maxArticles: null,
+  scope: null,
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Lowercase a language or country code, rejecting anything that isn't one
+ */
+function normalizeCode(code: string, kind: "language" | "country"): string {
+  const normalized = code.trim().toLowerCase();
+  const pattern = kind === "language" ? /^[a-z]{2,3}$/ : /^[a-z]{2}$/;
+
+  if (!pattern.test(normalized)) {
+    throw new Error(`Invalid ${kind} code "${code}"`);
+  }
+  return normalized;
+}
+
+// ============================================
+// Profiles
+// ============================================
+
+/**
+ * Profiles to run the general query for
+ */
+export async function getIngestionProfiles(): Promise<ProfileQuery[]> {
+  const rows = await db.query.ingestionProfiles.findMany({
+    where: eq(ingestionProfiles.enabled, true),
+    orderBy: [asc(ingestionProfiles.name)],
+  });
+
+  if (rows.length === 0) {
+    return [DEFAULT_PROFILE];
+  }
+
+  return rows.map((p) => ({
+    name: p.name,
+    language: p.language,
+    country: p.country,
+    query: p.query,
+    maxArticles: p.maxArticles,
+    scope: `profile:${p.id}`,
+  }));
+}
+
+/**
+ * List all profiles, enabled or not
+ */
+export async function listIngestionProfiles(): Promise<IngestionProfile[]> {
+  return db.query.ingestionProfiles.findMany({
+    orderBy: [asc(ingestionProfiles.name)],
+  });
+}
+
+/**
+ * Add a profile
+ */
+export async function addIngestionProfile(input: {
+  name: string;
+  language: string;
+  country: string;
+  query?: string | null;
+  maxArticles?: number;
+}): Promise<IngestionProfile> {
+  const existing = await db.query.ingestionProfiles.findFirst({
+    where: eq(ingestionProfiles.name, input.name),
+  });
+
+  if (existing) {
+    throw new Error(`Profile "${input.name}" already exists`);
+  }
+
+  const [profile] = await db
+    .insert(ingestionProfiles)
+    .values({
+      name: input.name,
+      language: normalizeCode(input.language, "language"),
+      country: normalizeCode(input.country, "country"),
+      query: input.query?.trim() || null,
+      maxArticles: input.maxArticles,
+    })
+    .returning();
+
+  return profile;
+}
+
+/**
+ * Enable or disable a profile
+ */
+export async function setIngestionProfileEnabled(
+  id: string,
+  enabled: boolean
+): Promise<IngestionProfile | null> {
+  const [profile] = await db
+    .update(ingestionProfiles)
+    .set({ enabled })
+    .where(eq(ingestionProfiles.id, id))
+    .returning();
+
+  return profile ?? null;
+}
+
+/**
+ * Delete a profile - its articles stay
+ */
+export async function deleteIngestionProfile(id: string): Promise<boolean> {
+  const deleted = await db
+    .delete(ingestionProfiles)
+    .where(eq(ingestionProfiles.id, id))
+    .returning({ id: ingestionProfiles.id });
+
+  return deleted.length > 0;
+}
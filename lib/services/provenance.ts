@@ -0,0 +1,186 @@
+/**
+ * Tagging provenance
+ * Records how every tagging run decided - source, confidence, matched
+ * keywords, AI reasoning - and aggregates it, e.g. which topics lean on
+ * the AI fallback
+ */
+
+import { db } from "@/db";
+import { articleTagEvents, topics, type NewArticleTagEvent } from "@/db/schema";
+import { avg, count, desc, eq, sql } from "drizzle-orm";
+import type { TagResult } from "./tagger";
+
+// ============================================
+// Types
+// ============================================
+
+export type TagTrigger = NewArticleTagEvent["trigger"];
+
+// The tagger's sources, plus editors
+export type TagEventSource = NewArticleTagEvent["source"];
+
+export interface TopicTaggingStats {
+  topicId: string | null; // null = untagged
+  topic: string | null;
+  slug: string | null;
+  total: number;
+  bySource: Record<TagEventSource, number>;
+  aiShare: number; // 0-1, of this topic's articles tagged by the AI
+  averageConfidence: number;
+}
+
+export interface TaggingStats {
+  articles: number; // Articles with at least one tagging run
+  bySource: Record<TagEventSource, number>;
+  untagged: number;
+  byTopic: TopicTaggingStats[]; // Most articles first
+  // Articles per tenth of confidence, 0-0.1 up to 0.9-1
+  confidence: {
+    from: number;
+    to: number;
+    bySource: Record<TagEventSource, number>;
+  }[];
+}
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * The event for one tagging run
+ */
+export function tagEventRow(
+  articleId: string,
+  tagResult: TagResult,
+  trigger: TagTrigger,
+  topicId: string | null,
+  previousTopicId: string | null = null
+): NewArticleTagEvent {
+  return {
+    articleId,
+    topicId,
+    previousTopicId,
+    trigger,
+    source: tagResult.source,
+    confidence: tagResult.confidence,
+    matchedKeywords: tagResult.matchedKeywords ?? [],
+    reasoning: tagResult.reasoning ?? null,
+    labels: tagResult.labels.map((label) => ({
+      topicSlug: label.topicSlug,
+      confidence: label.confidence,
+    })),
+  };
+}
+
+/**
+ * Store tagging runs
+ */
+export async function recordTagEvents(
+  rows: NewArticleTagEvent[]
+): Promise<void> {
+  if (rows.length === 0) return;
+  await db.insert(articleTagEvents).values(rows);
+}
+
+// ============================================
+// Stats
+// ============================================
+
+const emptyBySource = (): Record<TagEventSource, number> => ({
+  rule: 0,
+  ai: 0,
+  hint: 0,
+  manual: 0,
+});
+
+/**
+ * How articles were tagged, as of each one's latest tagging run
+ */
+export async function getTaggingStats(): Promise<TaggingStats> {
+  const latest = db
+    .selectDistinctOn([articleTagEvents.articleId], {
+      articleId: articleTagEvents.articleId,
+      topicId: articleTagEvents.topicId,
+      source: articleTagEvents.source,
+      confidence: articleTagEvents.confidence,
+    })
+    .from(articleTagEvents)
+    .orderBy(articleTagEvents.articleId, desc(articleTagEvents.createdAt))
+    .as("latest");
+
+  const bucket = sql<number>`least(floor(${latest.confidence} * 10), 9)::int`;
+
+  const [byTopicRows, bucketRows] = await Promise.all([
+    db
+      .select({
+        topicId: latest.topicId,
+        topic: topics.name,
+        slug: topics.slug,
+        source: latest.source,
+        count: count(),
+        averageConfidence: avg(latest.confidence),
+      })
+      .from(latest)
+      .leftJoin(topics, eq(topics.id, latest.topicId))
+      .groupBy(latest.topicId, topics.name, topics.slug, latest.source),
+    db
+      .select({ bucket, source: latest.source, count: count() })
+      .from(latest)
+      .groupBy(bucket, latest.source),
+  ]);
+
+  const stats: TaggingStats = {
+    articles: 0,
+    bySource: emptyBySource(),
+    untagged: 0,
+    byTopic: [],
+    confidence: Array.from({ length: 10 }, (_, i) => ({
+      from: i / 10,
+      to: (i + 1) / 10,
+      bySource: emptyBySource(),
+    })),
+  };
+
+  // Confidence is averaged per source row, so weight it back by count
+  const byTopic = new Map<string | null, TopicTaggingStats>();
+  for (const row of byTopicRows) {
+    let topic = byTopic.get(row.topicId);
+    if (!topic) {
+      topic = {
+        topicId: row.topicId,
+        topic: row.topic,
+        slug: row.slug,
+        total: 0,
+        bySource: emptyBySource(),
+        aiShare: 0,
+        averageConfidence: 0,
+      };
+      byTopic.set(row.topicId, topic);
+    }
+
+    topic.averageConfidence += Number(row.averageConfidence ?? 0) * row.count;
+    topic.total += row.count;
+    topic.bySource[row.source] += row.count;
+
+    stats.articles += row.count;
+    if (row.topicId) {
+      stats.bySource[row.source] += row.count;
+    } else {
+      stats.untagged += row.count;
+    }
+  }
+
+  stats.byTopic = Array.from(byTopic.values())
+    .map((topic) => ({
+      ...topic,
+      aiShare: topic.bySource.ai / topic.total,
+      averageConfidence: topic.averageConfidence / topic.total,
+    }))
+    .sort((a, b) => b.total - a.total);
+
+  for (const row of bucketRows) {
+    stats.confidence[row.bucket].bySource[row.source] += row.count;
+  }
+
+  return stats;
+}
@@ -0,0 +1,142 @@
+/**
+ * Provider request accounting and ingestion watermarks
+ * Keeps each news API inside its daily budget and lets regular fetches
+ * ask only for articles newer than what we already have
+ */
+
+import { db } from "@/db";
+import { providerState, providerUsage } from "@/db/schema";
+import { and, eq, lt, sql } from "drizzle-orm";
+import {
+  getDailyQuota,
+  isSourceEnabled,
+  NEWS_SOURCES,
+  type NewsSource,
+  type SourceName,
+} from "./sources";
+
+// ============================================
+// Types
+// ============================================
+
+export interface QuotaStatus {
+  source: SourceName;
+  label: string;
+  enabled: boolean;
+  used: number;
+  budget: number;
+  remaining: number;
+  watermark: Date | null;
+}
+
+// ============================================
+// Request Accounting
+// ============================================
+
+function utcDay(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Count a request against today's budget before making it
+ * Returns false (and counts nothing) when the budget is already used up
+ */
+export async function reserveRequest(source: NewsSource): Promise<boolean> {
+  const budget = getDailyQuota(source);
+  if (budget <= 0) return false;
+
+  // Single statement so concurrent fetches can't overshoot the budget
+  const [row] = await db
+    .insert(providerUsage)
+    .values({ provider: source.name, day: utcDay(), requestCount: 1 })
+    .onConflictDoUpdate({
+      target: [providerUsage.provider, providerUsage.day],
+      set: { requestCount: sql`${providerUsage.requestCount} + 1` },
+      setWhere: lt(providerUsage.requestCount, budget),
+    })
+    .returning({ requestCount: providerUsage.requestCount });
+
+  return !!row;
+}
+
+/**
+ * Requests made today for a source
+ */
+async function getUsedToday(source: SourceName): Promise<number> {
+  const row = await db.query.providerUsage.findFirst({
+    where: and(
+      eq(providerUsage.provider, source),
+      eq(providerUsage.day, utcDay())
+    ),
+  });
+  return row?.requestCount ?? 0;
+}
+
+// ============================================
+// Watermarks
+// ============================================
+
+/**
+ * Watermark key for a source, or one of its scoped queries (a topic or an
+ * ingestion profile)
+ * Scoped queries keep their own watermark - the general query's would skip
+ * older articles the scoped query hasn't seen yet
+ */
+export function watermarkKey(source: SourceName, scope?: string): string {
+  return scope ? `${source}:${scope}` : source;
+}
+
+/**
+ * Newest publishedAt ingested for a watermark key, if any
+ */
+export async function getWatermark(key: string): Promise<Date | null> {
+  const state = await db.query.providerState.findFirst({
+    where: eq(providerState.provider, key),
+  });
+  return state?.watermark ?? null;
+}
+
+/**
+ * Move the watermark forward - it never moves back
+ */
+export async function advanceWatermark(
+  key: string,
+  newest: Date
+): Promise<void> {
+  await db
+    .insert(providerState)
+    .values({ provider: key, watermark: newest, updatedAt: new Date() })
+    .onConflictDoUpdate({
+      target: providerState.provider,
+      set: {
+        watermark: sql`GREATEST(${providerState.watermark}, excluded.watermark)`,
+        updatedAt: new Date(),
+      },
+    });
+}
+
+// ============================================
+// Status
+// ============================================
+
+/**
+ * Today's usage, budget and watermark for every source
+ */
+export async function getQuotaStatus(): Promise<QuotaStatus[]> {
+  return Promise.all(
+    Object.values(NEWS_SOURCES).map(async (source) => {
+      const budget = getDailyQuota(source);
+      const used = await getUsedToday(source.name);
+
+      return {
+        source: source.name,
+        label: source.label,
+        enabled: isSourceEnabled(source),
+        used,
+        budget,
+        remaining: Math.max(budget - used, 0),
+        watermark: await getWatermark(source.name),
+      };
+    })
+  );
+}
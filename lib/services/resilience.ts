@@ -0,0 +1,312 @@
+/**
+ * Resilience for outbound calls
+ * Timeouts, retries with exponential backoff and jitter (honoring
+ * Retry-After) and a circuit breaker per upstream, so a flaky provider
+ * fails fast instead of stalling every call behind it
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface ResilienceOptions {
+  timeoutMs?: number; // Per attempt
+  retries?: number; // Attempts after the first
+  baseDelayMs?: number;
+  maxDelayMs?: number; // Retry-After beyond this gives up instead of waiting
+}
+
+export interface CallOptions extends ResilienceOptions {
+  isRetryable?: (error: unknown) => boolean;
+}
+
+export interface FetchOptions extends ResilienceOptions {
+  // Responses with these statuses are retried, then returned as-is
+  retryStatuses?: number[];
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitStatus {
+  upstream: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: Date | null;
+  retryAt: Date | null; // When an open circuit lets a trial call through
+  lastError: string | null;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const DEFAULTS: Required<ResilienceOptions> = {
+  timeoutMs: 15_000,
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+// Rate limits and server errors are worth another try, other 4xx aren't
+export const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// For news APIs a 429/403 means the daily quota is gone - retrying just
+// burns requests (see isQuotaError)
+export const SERVER_ERROR_STATUSES = [500, 502, 503, 504];
+
+// Consecutive failed calls (after retries) that open a circuit
+const FAILURE_THRESHOLD = 5;
+
+// How long an open circuit rejects calls before letting a trial through
+const COOLDOWN_MS = 60_000;
+
+// ============================================
+// Circuit Breakers
+// ============================================
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  lastError: string | null;
+}
+
+// Per process - each server instance keeps its own view of upstream health
+const circuits = new Map<string, Circuit>();
+
+function getCircuit(upstream: string): Circuit {
+  let circuit = circuits.get(upstream);
+  if (!circuit) {
+    circuit = {
+      state: "closed",
+      consecutiveFailures: 0,
+      openedAt: null,
+      lastError: null,
+    };
+    circuits.set(upstream, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * Throw when the circuit is open; after the cooldown it goes half-open and
+ * lets calls through until one succeeds or fails
+ */
+function assertCircuitAllows(upstream: string, circuit: Circuit): void {
+  if (circuit.state !== "open") return;
+
+  const retryAt = (circuit.openedAt ?? 0) + COOLDOWN_MS;
+  if (Date.now() < retryAt) {
+    const seconds = Math.ceil((retryAt - Date.now()) / 1000);
+    throw new Error(
+      `${upstream} circuit open after ${circuit.consecutiveFailures} failures - retrying in ${seconds}s`
+    );
+  }
+
+  circuit.state = "half-open";
+}
+
+function recordSuccess(circuit: Circuit): void {
+  circuit.state = "closed";
+  circuit.consecutiveFailures = 0;
+  circuit.openedAt = null;
+}
+
+function recordFailure(circuit: Circuit, error: unknown): void {
+  circuit.consecutiveFailures++;
+  circuit.lastError = errorMessage(error);
+
+  if (
+    circuit.state === "half-open" ||
+    circuit.consecutiveFailures >= FAILURE_THRESHOLD
+  ) {
+    circuit.state = "open";
+    circuit.openedAt = Date.now();
+  }
+}
+
+/**
+ * Circuits that are open, half-open or have recent failures
+ */
+export function getCircuitStatus(): CircuitStatus[] {
+  return Array.from(circuits.entries())
+    .filter(([, c]) => c.state !== "closed" || c.consecutiveFailures > 0)
+    .map(([upstream, c]) => ({
+      upstream,
+      state: c.state,
+      consecutiveFailures: c.consecutiveFailures,
+      openedAt: c.openedAt ? new Date(c.openedAt) : null,
+      retryAt:
+        c.state === "open" && c.openedAt
+          ? new Date(c.openedAt + COOLDOWN_MS)
+          : null,
+      lastError: c.lastError,
+    }))
+    .sort((a, b) => a.upstream.localeCompare(b.upstream));
+}
+
+// ============================================
+// Error Inspection
+// ============================================
+
+// Carries a retryable response through the retry loop
+class RetryableResponseError extends Error {
+  constructor(readonly response: Response) {
+    super(`Request failed (${response.status})`);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+/**
+ * HTTP status from fetch responses and SDK errors (AI SDK, OpenAI client)
+ */
+function statusOf(error: unknown): number | null {
+  if (error instanceof RetryableResponseError) return error.response.status;
+  if (typeof error !== "object" || error === null) return null;
+
+  const e = error as { statusCode?: unknown; status?: unknown };
+  const status = e.statusCode ?? e.status;
+  return typeof status === "number" ? status : null;
+}
+
+function headerOf(error: unknown, name: string): string | null {
+  if (error instanceof RetryableResponseError) {
+    return error.response.headers.get(name);
+  }
+  if (typeof error !== "object" || error === null) return null;
+
+  const e = error as { responseHeaders?: unknown; headers?: unknown };
+  const headers = e.responseHeaders ?? e.headers;
+
+  if (headers instanceof Headers) return headers.get(name);
+  if (typeof headers === "object" && headers !== null) {
+    const value = (headers as Record<string, unknown>)[name];
+    return typeof value === "string" ? value : null;
+  }
+  return null;
+}
+
+/**
+ * Retry-After as milliseconds (seconds or HTTP date form)
+ */
+function retryAfterMs(error: unknown): number | null {
+  const value = headerOf(error, "retry-after");
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(seconds * 1000, 0);
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Timeouts, network failures, rate limits and server errors
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof RetryableResponseError) return true;
+
+  if (error instanceof Error) {
+    if (error.name === "TimeoutError" || error.name === "AbortError") {
+      return true;
+    }
+    // fetch() rejects with a TypeError on network failures
+    if (error instanceof TypeError && error.message.includes("fetch")) {
+      return true;
+    }
+  }
+
+  const status = statusOf(error);
+  return status !== null && RETRYABLE_STATUSES.includes(status);
+}
+
+// ============================================
+// Calls
+// ============================================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a call against an upstream with a per-attempt timeout, retries and
+ * the upstream's circuit breaker. The call gets an AbortSignal to honor.
+ */
+export async function callUpstream<T>(
+  upstream: string,
+  call: (signal: AbortSignal) => Promise<T>,
+  options: CallOptions = {}
+): Promise<T> {
+  const { timeoutMs, retries, baseDelayMs, maxDelayMs } = {
+    ...DEFAULTS,
+    ...options,
+  };
+  const isRetryable = options.isRetryable ?? isTransientError;
+  const circuit = getCircuit(upstream);
+
+  assertCircuitAllows(upstream, circuit);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const value = await call(AbortSignal.timeout(timeoutMs));
+      recordSuccess(circuit);
+      return value;
+    } catch (error) {
+      // The upstream answered, just not with what we wanted
+      if (!isRetryable(error)) {
+        recordSuccess(circuit);
+        throw error;
+      }
+
+      // Full jitter, unless the upstream said how long to wait
+      const backoff = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+      const delay = retryAfterMs(error) ?? Math.random() * backoff;
+
+      if (attempt >= retries || delay > maxDelayMs) {
+        recordFailure(circuit, error);
+        throw error;
+      }
+
+      console.warn(
+        `[Resilience] ${upstream} attempt ${attempt + 1} failed (${errorMessage(error)}), retrying in ${Math.round(delay)}ms`
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * fetch() through callUpstream
+ * Retryable statuses are retried; if they persist the last response is
+ * returned so the caller reports it like any other HTTP error
+ */
+export async function resilientFetch(
+  upstream: string,
+  url: string,
+  init: RequestInit = {},
+  options: FetchOptions = {}
+): Promise<Response> {
+  const { retryStatuses = RETRYABLE_STATUSES, ...callOptions } = options;
+
+  try {
+    return await callUpstream(
+      upstream,
+      async (signal) => {
+        const response = await fetch(url, { ...init, signal });
+        if (retryStatuses.includes(response.status)) {
+          throw new RetryableResponseError(response);
+        }
+        return response;
+      },
+      callOptions
+    );
+  } catch (error) {
+    if (error instanceof RetryableResponseError) {
+      return error.response;
+    }
+    throw error;
+  }
+}
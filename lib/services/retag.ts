@@ -0,0 +1,237 @@
+/**
+ * Manual topics and bulk re-tagging
+ * Editors can set an article's topic by hand - recorded, and locked so
+ * automation leaves it alone - and the tagger can be re-run over a
+ * filtered set of articles after the rules change
+ */
+
+import { db } from "@/db";
+import {
+  articles,
+  articleTagEvents,
+  articleTopics,
+  topics,
+  type Article,
+  type ArticleTagEvent,
+} from "@/db/schema";
+import {
+  and,
+  asc,
+  eq,
+  exists,
+  gt,
+  gte,
+  isNull,
+  lt,
+  type SQL,
+} from "drizzle-orm";
+import { retagArticle } from "./fetcher";
+
+// ============================================
+// Types
+// ============================================
+
+export interface RetagFilter {
+  from?: string; // ISO, published at or after
+  to?: string; // ISO, published before
+  topicId?: string; // Current primary topic
+  untaggedOnly?: boolean;
+  aiTaggedOnly?: boolean; // Current labels came from the AI
+}
+
+export interface RetagTotals {
+  scanned: number;
+  changed: number; // Moved to another topic
+  skipped: number; // Set by hand while the run was going
+  failed: number;
+  moves: Record<string, number>; // "from -> to" by slug, "untagged" for none
+}
+
+export interface RetagBatchResult {
+  batch: RetagTotals;
+  totals: RetagTotals; // This batch plus the ones before it
+  nextAfterId: string | null; // Continue from here, null when done
+}
+
+// ============================================
+// Manual Topics
+// ============================================
+
+/**
+ * Set an article's topic by hand, replacing its labels and recording who
+ * did it. With lock (the default) automated re-tagging skips the article
+ * from then on; without it, the lock is lifted.
+ * Returns null when the article doesn't exist.
+ */
+export async function setArticleTopic(
+  articleId: string,
+  topicId: string | null,
+  options: { userId: string; lock?: boolean; note?: string }
+): Promise<{ article: Article; event: ArticleTagEvent } | null> {
+  const { userId, lock = true, note } = options;
+
+  const existing = await db.query.articles.findFirst({
+    where: eq(articles.id, articleId),
+  });
+  if (!existing) return null;
+
+  const topic = topicId
+    ? await db.query.topics.findFirst({ where: eq(topics.id, topicId) })
+    : null;
+  if (topicId && !topic) {
+    throw new Error("Topic not found");
+  }
+
+  return db.transaction(async (tx) => {
+    const [article] = await tx
+      .update(articles)
+      .set({ topicId, manuallyTaggedAt: lock ? new Date() : null })
+      .where(eq(articles.id, articleId))
+      .returning();
+
+    await tx
+      .delete(articleTopics)
+      .where(eq(articleTopics.articleId, articleId));
+    if (topic) {
+      await tx
+        .insert(articleTopics)
+        .values({
+          articleId,
+          topicId: topic.id,
+          confidence: 1,
+          source: "manual",
+        });
+    }
+
+    const [event] = await tx
+      .insert(articleTagEvents)
+      .values({
+        articleId,
+        topicId,
+        previousTopicId: existing.topicId,
+        userId,
+        trigger: "manual",
+        source: "manual",
+        confidence: 1,
+        reasoning: note ?? null,
+        labels: topic ? [{ topicSlug: topic.slug, confidence: 1 }] : [],
+      })
+      .returning();
+
+    return { article, event };
+  });
+}
+
+// ============================================
+// Bulk Re-tagging
+// ============================================
+
+// Articles re-tagged per call - each may call OpenAI, so the job queues
+// the next batch itself
+export const RETAG_BATCH_SIZE = 25;
+
+const UNTAGGED = "untagged";
+
+export function emptyRetagTotals(): RetagTotals {
+  return { scanned: 0, changed: 0, skipped: 0, failed: 0, moves: {} };
+}
+
+function addTotals(a: RetagTotals, b: RetagTotals): RetagTotals {
+  const moves = { ...a.moves };
+  for (const [move, n] of Object.entries(b.moves)) {
+    moves[move] = (moves[move] ?? 0) + n;
+  }
+  return {
+    scanned: a.scanned + b.scanned,
+    changed: a.changed + b.changed,
+    skipped: a.skipped + b.skipped,
+    failed: a.failed + b.failed,
+    moves,
+  };
+}
+
+function filterConditions(filter: RetagFilter): SQL[] {
+  const conditions: SQL[] = [isNull(articles.manuallyTaggedAt)];
+
+  if (filter.from) {
+    conditions.push(gte(articles.publishedAt, new Date(filter.from)));
+  }
+  if (filter.to) {
+    conditions.push(lt(articles.publishedAt, new Date(filter.to)));
+  }
+  if (filter.topicId) {
+    conditions.push(eq(articles.topicId, filter.topicId));
+  }
+  if (filter.untaggedOnly) {
+    conditions.push(isNull(articles.topicId));
+  }
+  if (filter.aiTaggedOnly) {
+    conditions.push(
+      exists(
+        db
+          .select({ articleId: articleTopics.articleId })
+          .from(articleTopics)
+          .where(
+            and(
+              eq(articleTopics.articleId, articles.id),
+              eq(articleTopics.source, "ai")
+            )
+          )
+      )
+    );
+  }
+  return conditions;
+}
+
+/**
+ * Re-run the tagger (AI included) over one batch of matching articles, in
+ * ID order after `afterId`, counting how many moved between topics
+ * Articles whose topic was set by hand are never touched.
+ */
+export async function retagArticles(
+  filter: RetagFilter,
+  afterId: string | null = null,
+  previous: RetagTotals = emptyRetagTotals()
+): Promise<RetagBatchResult> {
+  const conditions = filterConditions(filter);
+  if (afterId) {
+    conditions.push(gt(articles.id, afterId));
+  }
+
+  const batch = await db
+    .select({ id: articles.id })
+    .from(articles)
+    .where(and(...conditions))
+    .orderBy(asc(articles.id))
+    .limit(RETAG_BATCH_SIZE);
+
+  const topicRecords = await db.query.topics.findMany();
+  const slugOf = (id: string | null) =>
+    topicRecords.find((t) => t.id === id)?.slug ?? UNTAGGED;
+
+  const totals = emptyRetagTotals();
+  totals.scanned = batch.length;
+
+  for (const { id } of batch) {
+    try {
+      const result = await retagArticle(id);
+      if (!result) {
+        totals.skipped++;
+      } else if (result.changed) {
+        totals.changed++;
+        const move = `${slugOf(result.previousTopicId)} -> ${slugOf(result.topicId)}`;
+        totals.moves[move] = (totals.moves[move] ?? 0) + 1;
+      }
+    } catch (error) {
+      console.error(`Re-tagging ${id} failed:`, error);
+      totals.failed++;
+    }
+  }
+
+  return {
+    batch: totals,
+    totals: addTotals(previous, totals),
+    nextAfterId:
+      batch.length === RETAG_BATCH_SIZE ? batch[batch.length - 1].id : null,
+  };
+}
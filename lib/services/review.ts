@@ -0,0 +1,230 @@
+/**
+ * Review queue
+ * Articles the tagger couldn't place (no topic, so on no topic page) or
+ * placed with little confidence, for editors to triage - plus the words
+ * those articles share that no keyword rule covers yet
+ */
+
+import { db } from "@/db";
+import { articles, articleTopics, topics } from "@/db/schema";
+import {
+  and,
+  count,
+  desc,
+  eq,
+  isNotNull,
+  isNull,
+  lt,
+  or,
+  type SQL,
+} from "drizzle-orm";
+import { containsPhrase, tokenize } from "./matcher";
+import { getTaggingRules } from "./rules";
+import { STOPWORDS } from "./similarity";
+
+// ============================================
+// Types
+// ============================================
+
+export type ReviewReason = "untagged" | "low-confidence";
+
+export interface ReviewItem {
+  id: string;
+  title: string;
+  description: string | null;
+  url: string;
+  publisherName: string | null;
+  imageUrl: string | null;
+  publishedAt: Date;
+  reason: ReviewReason;
+  topic: { id: string; name: string; slug: string } | null;
+  confidence: number | null; // Of the primary topic
+}
+
+export interface KeywordSuggestion {
+  term: string; // One word or two in a row, as the matcher reads them
+  articles: number; // Queued articles it appears in
+  examples: string[]; // A few of their titles
+}
+
+// ============================================
+// Constants
+// ============================================
+
+// Primary topics below this are queued - one ordinary keyword in the
+// description (~0.34) is, two in the title (~0.81) isn't
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+// Queued articles read for keyword suggestions, newest first
+const SUGGESTION_SAMPLE = 500;
+
+// ============================================
+// Queue
+// ============================================
+
+// The primary topic's label, for its confidence
+const primaryLabel = and(
+  eq(articleTopics.articleId, articles.id),
+  eq(articleTopics.topicId, articles.topicId)
+);
+
+/**
+ * Condition for queued articles, of one reason or both
+ * Articles an editor has locked - a topic set by hand, or none on
+ * purpose - are done.
+ */
+function queued(reason?: ReviewReason): SQL {
+  const untagged = isNull(articles.topicId);
+  const lowConfidence = and(
+    isNotNull(articles.topicId),
+    lt(articleTopics.confidence, LOW_CONFIDENCE_THRESHOLD)
+  )!;
+
+  return and(
+    isNull(articles.manuallyTaggedAt),
+    reason === "untagged"
+      ? untagged
+      : reason === "low-confidence"
+        ? lowConfidence
+        : or(untagged, lowConfidence)
+  )!;
+}
+
+/**
+ * Queued articles, newest first
+ */
+export async function listReviewQueue(
+  options: { reason?: ReviewReason; limit?: number; offset?: number } = {}
+): Promise<{ items: ReviewItem[]; total: number }> {
+  const { reason, limit = 20, offset = 0 } = options;
+
+  const [rows, [{ total }]] = await Promise.all([
+    db
+      .select({
+        id: articles.id,
+        title: articles.title,
+        description: articles.description,
+        url: articles.url,
+        publisherName: articles.publisherName,
+        imageUrl: articles.imageUrl,
+        publishedAt: articles.publishedAt,
+        topicId: topics.id,
+        topicName: topics.name,
+        topicSlug: topics.slug,
+        confidence: articleTopics.confidence,
+      })
+      .from(articles)
+      .leftJoin(articleTopics, primaryLabel)
+      .leftJoin(topics, eq(topics.id, articles.topicId))
+      .where(queued(reason))
+      .orderBy(desc(articles.publishedAt))
+      .limit(limit)
+      .offset(offset),
+    db
+      .select({ total: count() })
+      .from(articles)
+      .leftJoin(articleTopics, primaryLabel)
+      .where(queued(reason)),
+  ]);
+
+  const items = rows.map(
+    ({ topicId, topicName, topicSlug, ...row }): ReviewItem => ({
+      ...row,
+      reason: topicId ? "low-confidence" : "untagged",
+      topic:
+        topicId && topicName && topicSlug
+          ? { id: topicId, name: topicName, slug: topicSlug }
+          : null,
+    })
+  );
+
+  return { items, total };
+}
+
+/**
+ * How many articles are queued, by reason
+ */
+export async function getReviewCounts(): Promise<Record<ReviewReason, number>> {
+  const [[untagged], [lowConfidence]] = await Promise.all(
+    (["untagged", "low-confidence"] as const).map((reason) =>
+      db
+        .select({ total: count() })
+        .from(articles)
+        .leftJoin(articleTopics, primaryLabel)
+        .where(queued(reason))
+    )
+  );
+
+  return {
+    untagged: untagged.total,
+    "low-confidence": lowConfidence.total,
+  };
+}
+
+// ============================================
+// Keyword Suggestions
+// ============================================
+
+function isContentWord(word: string): boolean {
+  return word.length > 2 && !/^\d+$/.test(word) && !STOPWORDS.has(word);
+}
+
+/**
+ * Words and two-word phrases that keep coming up in queued articles and
+ * no keyword rule (positive or negative) matches - candidates for a topic
+ */
+export async function suggestKeywords(
+  options: { limit?: number; minArticles?: number } = {}
+): Promise<KeywordSuggestion[]> {
+  const { limit = 30, minArticles = 2 } = options;
+
+  const [rules, queue] = await Promise.all([
+    getTaggingRules(),
+    db
+      .select({ title: articles.title, description: articles.description })
+      .from(articles)
+      .leftJoin(articleTopics, primaryLabel)
+      .where(queued())
+      .orderBy(desc(articles.publishedAt))
+      .limit(SUGGESTION_SAMPLE),
+  ]);
+
+  // Articles each term appears in, counted once per article
+  const terms = new Map<string, string[]>();
+  for (const article of queue) {
+    const seen = new Set<string>();
+    for (const text of [article.title, article.description ?? ""]) {
+      const words = tokenize(text);
+      words.forEach((word, i) => {
+        if (!isContentWord(word)) return;
+        seen.add(word);
+        const next = words[i + 1];
+        if (next && isContentWord(next)) seen.add(`${word} ${next}`);
+      });
+    }
+
+    for (const term of seen) {
+      const titles = terms.get(term) ?? [];
+      titles.push(article.title);
+      terms.set(term, titles);
+    }
+  }
+
+  const phrases = rules.flatMap((rule) =>
+    rule.keywords.map((k) => tokenize(k.keyword))
+  );
+  const covered = (term: string) => {
+    const words = term.split(" ");
+    return phrases.some((phrase) => containsPhrase(words, phrase));
+  };
+
+  return Array.from(terms.entries())
+    .filter(([term, titles]) => titles.length >= minArticles && !covered(term))
+    .sort(([a, x], [b, y]) => y.length - x.length || a.localeCompare(b))
+    .slice(0, limit)
+    .map(([term, titles]) => ({
+      term,
+      articles: titles.length,
+      examples: titles.slice(0, 3),
+    }));
+}
@@ -0,0 +1,310 @@
+/**
+ * Tagging rules
+ * Topics and their keywords, stored so editors can tune them without a
+ * deploy. Built-in topics are seeded from the defaults in the tagger.
+ */
+
+import { db } from "@/db";
+import {
+  topicKeywords,
+  topics,
+  type Topic,
+  type TopicKeyword,
+} from "@/db/schema";
+import { and, asc, eq, ne } from "drizzle-orm";
+import { defaultKeywordRules, isTopicSlug, type TopicRule } from "./tagger";
+
+// ============================================
+// Types
+// ============================================
+
+export interface TopicInput {
+  name: string;
+  slug: string;
+  description?: string | null;
+  sortOrder?: number;
+}
+
+export interface KeywordInput {
+  keyword: string;
+  weight?: number; // Defaults to 1
+  negative?: boolean;
+}
+
+export type TopicWithKeywords = Topic & { keywords: TopicKeyword[] };
+
+// ============================================
+// Rules
+// ============================================
+
+// Read for every batch of new articles; edits show up within a minute in
+// other processes, immediately in this one
+const CACHE_TTL_MS = 60_000;
+
+let cache: { rules: TopicRule[]; loadedAt: number } | null = null;
+
+/**
+ * Current tagging rules in topic order, cached per process
+ * Pass fresh when another process may have just changed them
+ */
+export async function getTaggingRules(
+  options: { fresh?: boolean } = {}
+): Promise<TopicRule[]> {
+  if (!options.fresh && cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+    return cache.rules;
+  }
+
+  const items = await listTaggingRules();
+  const rules = items.map((topic) => ({
+    slug: topic.slug,
+    name: topic.name,
+    keywords: topic.keywords.map((k) => ({
+      keyword: k.keyword,
+      weight: k.weight,
+      negative: k.negative,
+    })),
+  }));
+
+  cache = { rules, loadedAt: Date.now() };
+  return rules;
+}
+
+/**
+ * Every topic with its keywords, for editing
+ */
+export async function listTaggingRules(): Promise<TopicWithKeywords[]> {
+  return db.query.topics.findMany({
+    orderBy: [asc(topics.sortOrder), asc(topics.name)],
+    with: {
+      keywords: {
+        orderBy: [asc(topicKeywords.keyword)],
+      },
+    },
+  });
+}
+
+/**
+ * Copy a built-in topic's default keywords (and negatives) in, once
+ */
+export async function seedDefaultKeywords(topic: Topic): Promise<void> {
+  if (topic.keywordsSeededAt || !isTopicSlug(topic.slug)) return;
+
+  await db
+    .insert(topicKeywords)
+    .values(
+      defaultKeywordRules(topic.slug).map((rule) => ({
+        topicId: topic.id,
+        ...rule,
+      }))
+    )
+    .onConflictDoNothing();
+
+  await db
+    .update(topics)
+    .set({ keywordsSeededAt: new Date() })
+    .where(eq(topics.id, topic.id));
+
+  cache = null;
+}
+
+// ============================================
+// Topics
+// ============================================
+
+function cleanSlug(slug: string): string {
+  const cleaned = slug.trim().toLowerCase();
+  if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(cleaned)) {
+    throw new Error(
+      `Invalid slug "${slug}" - use lowercase letters, digits and dashes`
+    );
+  }
+  return cleaned;
+}
+
+/**
+ * Reject a name or slug another topic already has
+ */
+async function assertUnique(
+  values: { name?: string; slug?: string },
+  exceptId?: string
+): Promise<void> {
+  const others = exceptId ? ne(topics.id, exceptId) : undefined;
+
+  if (values.slug) {
+    const taken = await db.query.topics.findFirst({
+      where: and(eq(topics.slug, values.slug), others),
+    });
+    if (taken) throw new Error(`Slug "${values.slug}" is already used`);
+  }
+  if (values.name) {
+    const taken = await db.query.topics.findFirst({
+      where: and(eq(topics.name, values.name), others),
+    });
+    if (taken) throw new Error(`Name "${values.name}" is already used`);
+  }
+}
+
+/**
+ * Create a topic (with no keywords yet)
+ */
+export async function createTopic(input: TopicInput): Promise<Topic> {
+  const values = {
+    name: input.name.trim(),
+    slug: cleanSlug(input.slug),
+    description: input.description ?? null,
+    sortOrder: input.sortOrder ?? 0,
+  };
+  await assertUnique(values);
+
+  const [topic] = await db.insert(topics).values(values).returning();
+
+  cache = null;
+  return topic;
+}
+
+/**
+ * Rename, re-describe or reorder a topic
+ * Built-in topics keep their slug - it's how the defaults find them.
+ */
+export async function updateTopic(
+  id: string,
+  input: Partial<TopicInput>
+): Promise<Topic | null> {
+  const existing = await db.query.topics.findFirst({
+    where: eq(topics.id, id),
+  });
+  if (!existing) return null;
+
+  const slug = input.slug === undefined ? undefined : cleanSlug(input.slug);
+  if (slug && slug !== existing.slug && isTopicSlug(existing.slug)) {
+    throw new Error("Built-in topics can't change their slug");
+  }
+
+  const values = {
+    name: input.name?.trim(),
+    slug,
+    description: input.description,
+    sortOrder: input.sortOrder,
+  };
+  await assertUnique(values, id);
+
+  const [topic] = await db
+    .update(topics)
+    .set(values)
+    .where(eq(topics.id, id))
+    .returning();
+
+  cache = null;
+  return topic;
+}
+
+/**
+ * Delete a topic - its articles become untagged
+ * Built-in topics can't be deleted (seeding would bring them back).
+ */
+export async function deleteTopic(id: string): Promise<boolean> {
+  const existing = await db.query.topics.findFirst({
+    where: eq(topics.id, id),
+  });
+  if (!existing) return false;
+
+  if (isTopicSlug(existing.slug)) {
+    throw new Error("Built-in topics can't be deleted");
+  }
+
+  await db.delete(topics).where(eq(topics.id, id));
+
+  cache = null;
+  return true;
+}
+
+// ============================================
+// Keywords
+// ============================================
+
+function cleanKeyword(keyword: string): string {
+  const cleaned = keyword.trim().replace(/\s+/g, " ").toLowerCase();
+  if (!cleaned) throw new Error("Keyword is empty");
+  return cleaned;
+}
+
+/**
+ * Add a keyword (or a negative one) to a topic
+ */
+export async function addKeyword(
+  topicId: string,
+  input: KeywordInput
+): Promise<TopicKeyword> {
+  const [created] = await db
+    .insert(topicKeywords)
+    .values({
+      topicId,
+      keyword: cleanKeyword(input.keyword),
+      weight: input.weight ?? 1,
+      negative: input.negative ?? false,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!created) {
+    throw new Error(`"${input.keyword}" is already a keyword of this topic`);
+  }
+
+  cache = null;
+  return created;
+}
+
+/**
+ * Change a keyword's text, weight or polarity
+ */
+export async function updateKeyword(
+  id: string,
+  input: Partial<KeywordInput>
+): Promise<TopicKeyword | null> {
+  const existing = await db.query.topicKeywords.findFirst({
+    where: eq(topicKeywords.id, id),
+  });
+  if (!existing) return null;
+
+  const cleaned =
+    input.keyword === undefined ? undefined : cleanKeyword(input.keyword);
+  if (cleaned) {
+    const duplicate = await db.query.topicKeywords.findFirst({
+      where: and(
+        eq(topicKeywords.topicId, existing.topicId),
+        eq(topicKeywords.keyword, cleaned),
+        ne(topicKeywords.id, id)
+      ),
+    });
+    if (duplicate) {
+      throw new Error(`"${input.keyword}" is already a keyword of this topic`);
+    }
+  }
+
+  const [updated] = await db
+    .update(topicKeywords)
+    .set({
+      keyword: cleaned,
+      weight: input.weight,
+      negative: input.negative,
+      updatedAt: new Date(),
+    })
+    .where(eq(topicKeywords.id, id))
+    .returning();
+
+  cache = null;
+  return updated;
+}
+
+/**
+ * Delete a keyword
+ */
+export async function deleteKeyword(id: string): Promise<boolean> {
+  const deleted = await db
+    .delete(topicKeywords)
+    .where(eq(topicKeywords.id, id))
+    .returning({ id: topicKeywords.id });
+
+  cache = null;
+  return deleted.length > 0;
+}
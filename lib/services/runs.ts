@@ -0,0 +1,103 @@
+/**
+ * Fetch run history
+ * Every ingestion pass (manual, scheduled or backfill) is recorded with its
+ * counts and errors so failures can be looked at after the fact
+ */
+
+import { db } from "@/db";
+import { fetchRuns, type FetchRun } from "@/db/schema";
+import { count, desc, eq } from "drizzle-orm";
+import type { FetchResult } from "./fetcher";
+
+// ============================================
+// Types
+// ============================================
+
+export type FetchTrigger = FetchRun["trigger"];
+
+export interface ListFetchRunsOptions {
+  limit?: number;
+  offset?: number;
+}
+
+// Only the most recent errors are kept on the row
+const MAX_STORED_ERRORS = 100;
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Record the start of a run, returning its id
+ */
+export async function startFetchRun(
+  trigger: FetchTrigger,
+  options: { providers?: string[]; backfillId?: string } = {}
+): Promise<string> {
+  const [run] = await db
+    .insert(fetchRuns)
+    .values({
+      trigger,
+      providers: options.providers ?? [],
+      backfillId: options.backfillId ?? null,
+    })
+    .returning({ id: fetchRuns.id });
+
+  return run.id;
+}
+
+/**
+ * Record a run's final counts and errors
+ */
+export async function finishFetchRun(
+  id: string,
+  result: FetchResult,
+  providers?: string[]
+): Promise<void> {
+  await db
+    .update(fetchRuns)
+    .set({
+      ...(providers && { providers }),
+      finishedAt: new Date(),
+      fetched: result.fetched,
+      inserted: result.inserted,
+      duplicates: result.duplicates,
+      taggedByRule: result.taggedByRule,
+      taggedByAI: result.taggedByAI,
+      untagged: result.untagged,
+      extracted: result.extracted,
+      bySource: result.bySource,
+      deferred: result.deferred,
+      errors: result.errors.slice(-MAX_STORED_ERRORS),
+    })
+    .where(eq(fetchRuns.id, id));
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Runs, newest first
+ */
+export async function listFetchRuns(options: ListFetchRunsOptions = {}) {
+  const { limit = 20, offset = 0 } = options;
+
+  const [items, [{ total }]] = await Promise.all([
+    db.query.fetchRuns.findMany({
+      orderBy: [desc(fetchRuns.startedAt)],
+      limit,
+      offset,
+    }),
+    db.select({ total: count() }).from(fetchRuns),
+  ]);
+
+  return { items, total, limit, offset };
+}
+
+export async function getFetchRun(id: string) {
+  const run = await db.query.fetchRuns.findFirst({
+    where: eq(fetchRuns.id, id),
+  });
+  return run ?? null;
+}
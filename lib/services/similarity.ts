@@ -0,0 +1,279 @@
+/**
+ * Text similarity
+ * TF-IDF cosine over the content words of a headline and summary, so
+ * coverage of the same event by different outlets can be matched on the
+ * names and numbers they share rather than on common vocabulary
+ */
+
+// ============================================
+// Tokens
+// ============================================
+
+// Words that say nothing about which event an article covers
+export const STOPWORDS = new Set(
+  `a about after again against all also am an and any are as at be because
+  been before being between both but by can could did do does doing down
+  during each few for from further had has have having he her here hers him
+  his how i if in into is it its itself just me more most my new news no nor
+  not now of off on once only or other our out over own report reports said
+  same says she should so some such than that the their them then there
+  these they this those through to too under until up very via was we were
+  what when where which while who whom why will with would you your`.split(
+    /\s+/
+  )
+);
+
+/**
+ * Content words of a text: lowercased, accents and punctuation dropped,
+ * stopwords removed and plurals folded ("layoffs" and "layoff" match)
+ * Hyphenated names and grouped numbers stay whole ("gpt-5", "10,000").
+ */
+export function contentWords(text: string): string[] {
+  return (
+    text
+      .normalize("NFKD")
+      .replace(/\p{M}/gu, "")
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+(?:[-'][\p{L}\p{N}]+|[.,]\d+)*/gu) ?? []
+  )
+    .map((word) => word.replace(/'s$/, "").replace(/,/g, ""))
+    .filter(
+      (word) => (word.length > 1 || /\d/.test(word)) && !STOPWORDS.has(word)
+    )
+    .map((word) =>
+      word.length > 4 && word.endsWith("s") && !word.endsWith("ss")
+        ? word.slice(0, -1)
+        : word
+    );
+}
+
+// ============================================
+// Vectors
+// ============================================
+
+// Unit-length TF-IDF weights by term
+export type TermVector = Map<string, number>;
+
+// Inverse document frequency by term, over the documents being compared
+export interface IdfTable {
+  documents: number;
+  weights: Map<string, number>;
+}
+
+/**
+ * IDF of every term in a set of documents (each a list of words)
+ */
+export function buildIdf(documents: string[][]): IdfTable {
+  const counts = new Map<string, number>();
+  for (const words of documents) {
+    for (const word of new Set(words)) {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+  }
+
+  const weights = new Map<string, number>();
+  for (const [word, count] of counts) {
+    weights.set(word, Math.log((documents.length + 1) / (count + 1)) + 1);
+  }
+  return { documents: documents.length, weights };
+}
+
+/**
+ * Unit-length TF-IDF vector of a document's words
+ * Terms missing from the table are weighted as if seen once
+ */
+export function termVector(words: string[], idf: IdfTable): TermVector {
+  const unseen = Math.log((idf.documents + 1) / 2) + 1;
+
+  const vector: TermVector = new Map();
+  for (const word of words) {
+    vector.set(word, (vector.get(word) ?? 0) + 1);
+  }
+
+  let norm = 0;
+  for (const [word, tf] of vector) {
+    const weight = tf * (idf.weights.get(word) ?? unseen);
+    vector.set(word, weight);
+    norm += weight * weight;
+  }
+
+  norm = Math.sqrt(norm);
+  for (const [word, weight] of vector) {
+    vector.set(word, weight / norm);
+  }
+  return vector;
+}
+
+/**
+ * Cosine similarity of two unit vectors (0-1)
+ */
+export function cosine(a: TermVector, b: TermVector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [word, weight] of small) {
+    const other = large.get(word);
+    if (other) dot += weight * other;
+  }
+  return dot;
+}
+
+// ============================================
+// Candidate Search
+// ============================================
+
+/**
+ * Inverted index over vectors - only items sharing a term with the query
+ * are scored
+ */
+export interface VectorIndex<T> {
+  postings: Map<string, T[]>;
+  vectors: Map<T, TermVector>;
+}
+
+export function createVectorIndex<T>(): VectorIndex<T> {
+  return { postings: new Map(), vectors: new Map() };
+}
+
+export function addToIndex<T>(
+  index: VectorIndex<T>,
+  item: T,
+  vector: TermVector
+): void {
+  index.vectors.set(item, vector);
+  for (const word of vector.keys()) {
+    const posting = index.postings.get(word);
+    if (posting) {
+      posting.push(item);
+    } else {
+      index.postings.set(word, [item]);
+    }
+  }
+}
+
+/**
+ * The most similar indexed item at or above the threshold
+ */
+export function findMostSimilar<T>(
+  index: VectorIndex<T>,
+  vector: TermVector,
+  threshold: number,
+  accept: (item: T) => boolean = () => true
+): { item: T; similarity: number } | null {
+  let best: { item: T; similarity: number } | null = null;
+  const checked = new Set<T>();
+
+  for (const word of vector.keys()) {
+    for (const item of index.postings.get(word) ?? []) {
+      if (checked.has(item)) continue;
+      checked.add(item);
+      if (!accept(item)) continue;
+
+      const score = cosine(vector, index.vectors.get(item)!);
+      if (score >= threshold && (!best || score > best.similarity)) {
+        best = { item, similarity: score };
+      }
+    }
+  }
+
+  return best;
+}
+
+// ============================================
+// Grouping
+// ============================================
+
+// What's compared when grouping articles
+export interface ComparableArticle {
+  id: string;
+  title: string;
+  description: string | null;
+  publishedAt: Date;
+}
+
+export interface SimilarityGroups {
+  // Group of each grouped article: a stored ID, or the index of a new group
+  groupOf: Map<string, string | number>;
+  created: number; // New groups
+  matched: number; // New articles that found a match
+  changed: string[]; // Articles whose group was set - new ones and matches
+}
+
+/**
+ * Words compared for an article - the title counts twice, it names the
+ * event where descriptions often wander
+ */
+export function articleWords(article: ComparableArticle): string[] {
+  const title = contentWords(article.title);
+  return [...title, ...title, ...contentWords(article.description ?? "")];
+}
+
+/**
+ * Match each new article, oldest first, to the most similar one published
+ * within maxGapMs of it - existing articles and the new ones before it. A
+ * match already in a group passes it on, otherwise the two start one.
+ * Word weights come from all the articles given, so names everyone is
+ * mentioning ("AI") count for less than ones only a few articles share.
+ */
+export function groupBySimilarity<T extends ComparableArticle>(
+  fresh: T[],
+  existing: T[],
+  options: {
+    threshold: number;
+    maxGapMs: number;
+    groupOf: (article: T) => string | null; // Stored group
+  }
+): SimilarityGroups {
+  const result: SimilarityGroups = {
+    groupOf: new Map(),
+    created: 0,
+    matched: 0,
+    changed: [],
+  };
+
+  const freshIds = new Set(fresh.map((a) => a.id));
+  const others = existing.filter((a) => !freshIds.has(a.id));
+
+  const words = new Map(
+    [...others, ...fresh].map((a) => [a.id, articleWords(a)])
+  );
+  const idf = buildIdf(Array.from(words.values()));
+
+  const index = createVectorIndex<T>();
+  for (const article of others) {
+    addToIndex(index, article, termVector(words.get(article.id)!, idf));
+    const group = options.groupOf(article);
+    if (group) result.groupOf.set(article.id, group);
+  }
+
+  const ordered = [...fresh].sort(
+    (a, b) => a.publishedAt.getTime() - b.publishedAt.getTime()
+  );
+
+  for (const article of ordered) {
+    const vector = termVector(words.get(article.id)!, idf);
+    const match = findMostSimilar(
+      index,
+      vector,
+      options.threshold,
+      (other) =>
+        Math.abs(other.publishedAt.getTime() - article.publishedAt.getTime()) <=
+        options.maxGapMs
+    );
+
+    if (match) {
+      let group = result.groupOf.get(match.item.id);
+      if (group === undefined) {
+        group = result.created++;
+        result.groupOf.set(match.item.id, group);
+        result.changed.push(match.item.id);
+      }
+      result.groupOf.set(article.id, group);
+      result.changed.push(article.id);
+      result.matched++;
+    }
+
+    addToIndex(index, article, vector);
+  }
+
+  return result;
+}
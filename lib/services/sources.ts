@@ -0,0 +1,263 @@
+/**
+ * News source providers
+ * Adapts each news API client to a common article shape so the fetcher
+ * can run any combination of them in a single pass
+ */
+
+import { fetchGNewsTopHeadlines } from "./gnews";
+import { fetchNewsDataLatest } from "./newsdata";
+import { fetchNewsApiEverything } from "./newsapi";
+
+// ============================================
+// Types
+// ============================================
+
+export const SOURCE_NAMES = ["gnews", "newsdata", "newsapi"] as const;
+
+export type SourceName = (typeof SOURCE_NAMES)[number];
+
+/**
+ * Article shape shared by every provider
+ */
+export interface SourceArticle {
+  title: string;
+  description: string | null;
+  content: string | null;
+  url: string;
+  imageUrl: string | null;
+  author: string | null;
+  publisherName: string | null;
+  publishedAt: Date;
+  language: string | null; // Lowercase ISO 639-1, e.g. "en"
+  region: string | null; // Lowercase ISO 3166-1, e.g. "us"
+}
+
+export interface SourceFetchOptions {
+  query?: string;
+  lang?: string;
+  country?: string;
+  max?: number;
+  from?: Date;
+  to?: Date;
+  page?: number; // 1-based, only honored by sources that support paging
+}
+
+export interface SourceFetchPage {
+  articles: SourceArticle[];
+  totalResults: number | null; // Reported by the provider, when known
+}
+
+export interface SourceConfig {
+  apiKeyEnv: string; // Environment variable holding the API key
+  defaultQuery: string;
+  maxPerRequest: number; // Upper bound the provider accepts for one request
+  supportsHistory: boolean; // Honors from/to and paging (needed for backfills)
+  dailyQuota: number; // Free-plan requests per UTC day, see getDailyQuota
+}
+
+export interface NewsSource {
+  name: SourceName;
+  label: string;
+  config: SourceConfig;
+  fetchArticles(options?: SourceFetchOptions): Promise<SourceFetchPage>;
+}
+
+// ============================================
+// Providers
+// ============================================
+
+const DEFAULT_QUERY = "technology OR tech OR software OR AI OR startup";
+
+// What a fetch asks for when no language or country is given
+export const DEFAULT_LANGUAGE = "en";
+export const DEFAULT_COUNTRY = "us";
+
+export const gnewsSource: NewsSource = {
+  name: "gnews",
+  label: "GNews",
+  config: {
+    apiKeyEnv: "GNEWS_API_KEY",
+    defaultQuery: DEFAULT_QUERY,
+    maxPerRequest: 100,
+    supportsHistory: true,
+    dailyQuota: 100,
+  },
+  async fetchArticles(options = {}) {
+    const lang = options.lang ?? DEFAULT_LANGUAGE;
+    const country = options.country ?? DEFAULT_COUNTRY;
+
+    const response = await fetchGNewsTopHeadlines({
+      query: options.query ?? this.config.defaultQuery,
+      lang,
+      country,
+      max: Math.min(options.max ?? 50, this.config.maxPerRequest),
+      from: options.from,
+      to: options.to,
+      page: options.page,
+    });
+
+    const articles = response.articles.map((a) => ({
+      title: a.title,
+      description: a.description,
+      content: a.content,
+      url: a.url,
+      imageUrl: a.image,
+      author: null, // GNews doesn't provide author
+      publisherName: a.source.name,
+      publishedAt: new Date(a.publishedAt),
+      language: lang,
+      region: country,
+    }));
+
+    return { articles, totalResults: response.totalArticles };
+  },
+};
+
+export const newsDataSource: NewsSource = {
+  name: "newsdata",
+  label: "NewsData.io",
+  config: {
+    apiKeyEnv: "NEWSDATA_API_KEY",
+    defaultQuery: "technology OR software OR AI OR startup", // 100 char query limit
+    maxPerRequest: 10,
+    supportsHistory: false, // Date ranges need the paid archive endpoint
+    dailyQuota: 200,
+  },
+  async fetchArticles(options = {}) {
+    const lang = options.lang ?? DEFAULT_LANGUAGE;
+    const country = options.country ?? DEFAULT_COUNTRY;
+
+    const response = await fetchNewsDataLatest({
+      query: options.query ?? this.config.defaultQuery,
+      lang,
+      country,
+      max: Math.min(options.max ?? 10, this.config.maxPerRequest),
+    });
+
+    // The latest endpoint has no date range, so apply it here
+    const articles = response.results
+      .map((a) => ({
+        title: a.title,
+        description: a.description,
+        content: a.content,
+        url: a.link,
+        imageUrl: a.image_url,
+        author: a.creator?.[0] ?? null,
+        publisherName: a.source_name ?? a.source_id,
+        publishedAt: new Date(`${a.pubDate.replace(" ", "T")}Z`),
+        language: lang,
+        region: country,
+      }))
+      .filter(
+        (a) =>
+          (!options.from || a.publishedAt >= options.from) &&
+          (!options.to || a.publishedAt <= options.to)
+      );
+
+    return { articles, totalResults: response.totalResults };
+  },
+};
+
+export const newsApiSource: NewsSource = {
+  name: "newsapi",
+  label: "NewsAPI",
+  config: {
+    apiKeyEnv: "NEWSAPI_API_KEY",
+    defaultQuery: DEFAULT_QUERY,
+    maxPerRequest: 100,
+    supportsHistory: true,
+    dailyQuota: 100,
+  },
+  async fetchArticles(options = {}) {
+    const lang = options.lang ?? DEFAULT_LANGUAGE;
+
+    const response = await fetchNewsApiEverything({
+      query: options.query ?? this.config.defaultQuery,
+      lang,
+      max: Math.min(options.max ?? 20, this.config.maxPerRequest),
+      from: options.from,
+      to: options.to,
+      page: options.page,
+    });
+
+    // NewsAPI keeps takedowns in results as "[Removed]" placeholders
+    const articles = response.articles
+      .filter((a) => a.title && a.title !== "[Removed]")
+      .map((a) => ({
+        title: a.title,
+        description: a.description,
+        content: a.content,
+        url: a.url,
+        imageUrl: a.urlToImage,
+        author: a.author,
+        publisherName: a.source.name,
+        publishedAt: new Date(a.publishedAt),
+        language: lang,
+        region: null, // The everything endpoint can't filter by country
+      }));
+
+    return { articles, totalResults: response.totalResults };
+  },
+};
+
+export const NEWS_SOURCES: Record<SourceName, NewsSource> = {
+  gnews: gnewsSource,
+  newsdata: newsDataSource,
+  newsapi: newsApiSource,
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * A source is enabled when its API key is configured
+ */
+export function isSourceEnabled(source: NewsSource): boolean {
+  return !!process.env[source.config.apiKeyEnv];
+}
+
+/**
+ * Get enabled sources, optionally restricted to a subset
+ */
+export function getEnabledSources(names?: SourceName[]): NewsSource[] {
+  const candidates = names?.length
+    ? names.map((name) => NEWS_SOURCES[name])
+    : Object.values(NEWS_SOURCES);
+
+  return candidates.filter(isSourceEnabled);
+}
+
+/**
+ * Split a language tag like "en-US" or "pt_BR" into lowercase codes
+ */
+export function parseLanguageTag(tag: string | null | undefined): {
+  language: string | null;
+  region: string | null;
+} {
+  const match = tag
+    ?.trim()
+    .toLowerCase()
+    .match(/^([a-z]{2,3})(?:[-_]([a-z]{2}))?\b/);
+  return { language: match?.[1] ?? null, region: match?.[2] ?? null };
+}
+
+/**
+ * Requests allowed per UTC day
+ * Override the free-plan default with e.g. GNEWS_DAILY_QUOTA=1000
+ */
+export function getDailyQuota(source: NewsSource): number {
+  const override = parseInt(
+    process.env[`${source.name.toUpperCase()}_DAILY_QUOTA`] ?? "",
+    10
+  );
+  return isNaN(override) ? source.config.dailyQuota : override;
+}
+
+/**
+ * Whether a provider error means the request quota is used up
+ * Clients report the HTTP status in the message, e.g. "GNews API error (429)"
+ */
+export function isQuotaError(error: unknown): boolean {
+  return error instanceof Error && /\((429|403)\)/.test(error.message);
+}
@@ -0,0 +1,188 @@
+/**
+ * Stories
+ * Follows an event across days: each new article joins the story of the
+ * most similar article from the past week, so a breach, a lawsuit or a
+ * launch can be read as a timeline and digests know what came before
+ */
+
+import { db } from "@/db";
+import { articles, stories } from "@/db/schema";
+import { asc, desc, eq, gte } from "drizzle-orm";
+import { groupArticles, ungroupedArticleIds, type Grouping } from "./grouping";
+
+// ============================================
+// Types
+// ============================================
+
+export interface StoryResult {
+  checked: number; // New articles compared against the past week
+  attached: number; // Of those, joined to or started a story
+  created: number; // Stories started
+}
+
+export interface StoryDay {
+  date: string; // UTC day, YYYY-MM-DD
+  count: number;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+// Follow-ups this long after an article still join its story
+export const STORY_WINDOW_DAYS = 7;
+
+// Looser than clustering - follow-ups share names, not phrasing
+export const STORY_SIMILARITY = 0.35;
+
+// Most articles from the window compared per run
+const MAX_WINDOW_ARTICLES = 10_000;
+
+// ============================================
+// Attaching
+// ============================================
+
+const storyGrouping: Grouping = {
+  field: "storyId",
+  windowMs: STORY_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+  threshold: STORY_SIMILARITY,
+  maxWindowArticles: MAX_WINDOW_ARTICLES,
+
+  create: async (count) => {
+    const now = new Date();
+    const started = await db
+      .insert(stories)
+      .values(
+        Array.from({ length: count }, () => ({
+          title: "",
+          firstPublishedAt: now,
+          lastPublishedAt: now,
+        }))
+      )
+      .returning({ id: stories.id });
+    return started.map((s) => s.id);
+  },
+
+  // Title of the first article, article count and dates
+  update: async (storyId, members) => {
+    await db
+      .update(stories)
+      .set({
+        title: members[0].title,
+        articleCount: members.length,
+        firstPublishedAt: members[0].publishedAt,
+        lastPublishedAt: members[members.length - 1].publishedAt,
+        updatedAt: new Date(),
+      })
+      .where(eq(stories.id, storyId));
+  },
+
+  remove: async (storyId) => {
+    await db.delete(stories).where(eq(stories.id, storyId));
+  },
+};
+
+/**
+ * Attach new articles to the story of a similar article published within
+ * a week of them, starting a story when the closest match has none
+ * Articles already in a story are skipped.
+ */
+export async function attachToStories(
+  articleIds: string[]
+): Promise<StoryResult> {
+  const result = await groupArticles(articleIds, storyGrouping);
+  return {
+    checked: result.checked,
+    attached: result.grouped,
+    created: result.created,
+  };
+}
+
+/**
+ * Attach the articles of the last N hours that have no story - for
+ * articles stored before stories existed
+ */
+export async function attachRecentArticles(
+  hours = STORY_WINDOW_DAYS * 24
+): Promise<StoryResult> {
+  return attachToStories(await ungroupedArticleIds("storyId", hours));
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Articles per UTC day from the first to the last, quiet days included
+ */
+function countByDay(dates: Date[]): StoryDay[] {
+  const counts = new Map<string, number>();
+  for (const date of dates) {
+    const day = date.toISOString().slice(0, 10);
+    counts.set(day, (counts.get(day) ?? 0) + 1);
+  }
+
+  const days: StoryDay[] = [];
+  if (dates.length === 0) return days;
+
+  const last = dates[dates.length - 1].toISOString().slice(0, 10);
+  const cursor = new Date(`${dates[0].toISOString().slice(0, 10)}T00:00:00Z`);
+  for (;;) {
+    const day = cursor.toISOString().slice(0, 10);
+    days.push({ date: day, count: counts.get(day) ?? 0 });
+    if (day >= last) break;
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return days;
+}
+
+/**
+ * A story's articles in publication order, with how many came out each day
+ */
+export async function getStoryTimeline(storyId: string) {
+  const story = await db.query.stories.findFirst({
+    where: eq(stories.id, storyId),
+  });
+
+  if (!story) return null;
+
+  const timeline = await db.query.articles.findMany({
+    where: eq(articles.storyId, storyId),
+    orderBy: [asc(articles.publishedAt)],
+    columns: {
+      id: true,
+      title: true,
+      description: true,
+      url: true,
+      imageUrl: true,
+      publisherName: true,
+      publishedAt: true,
+      clusterId: true,
+    },
+    with: {
+      topic: true,
+    },
+  });
+
+  return {
+    story,
+    articles: timeline,
+    days: countByDay(timeline.map((a) => a.publishedAt)),
+  };
+}
+
+/**
+ * Stories with coverage in the last N days, most recently active first
+ */
+export async function getRecentStories(
+  options: { days?: number; limit?: number } = {}
+) {
+  const { days = STORY_WINDOW_DAYS, limit = 20 } = options;
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  return db.query.stories.findMany({
+    where: gte(stories.lastPublishedAt, since),
+    orderBy: [desc(stories.lastPublishedAt)],
+    limit,
+  });
+}
@@ -1,52 +1,73 @@
 /**
  * Rule-based topic tagger
- * Assigns articles to topics based on keywords and patterns
+ * Assigns articles to topics based on keywords and patterns. The rules live
+ * in the database (lib/services/rules.ts); the ones here are the defaults
+ * they're seeded from.
  */
 
+import {
+  scoreTopic,
+  tokenizeFields,
+  type KeywordRule,
+  type TopicScore,
+} from "./matcher";
+import type { AITagResult } from "./ai";
+
 // ============================================
 // Topic Definitions
 // ============================================
 
+// Built-in topics, seeded into the database
+// query is the default provider search for topic-scoped fetches
+// (overridable per topic in the database)
 export const TOPICS = {
   "ai-ml": {
     name: "AI & Machine Learning",
     slug: "ai-ml",
     sortOrder: 1,
+    query: '"artificial intelligence" OR "machine learning" OR LLM OR OpenAI',
   },
   startups: {
     name: "Startups & Funding",
     slug: "startups",
     sortOrder: 2,
+    query: 'startup OR "venture capital" OR "seed round" OR "Series A"',
   },
   programming: {
     name: "Programming & Dev Tools",
     slug: "programming",
     sortOrder: 3,
+    query: 'programming OR "developer tools" OR "open source" OR GitHub',
   },
   cybersecurity: {
     name: "Cybersecurity",
     slug: "cybersecurity",
     sortOrder: 4,
+    query: 'cybersecurity OR ransomware OR "data breach" OR vulnerability',
   },
   "big-tech": {
     name: "Big Tech",
     slug: "big-tech",
     sortOrder: 5,
+    query: "Apple OR Google OR Microsoft OR Amazon OR Meta",
   },
   crypto: {
     name: "Crypto & Web3",
     slug: "crypto",
     sortOrder: 6,
+    query: "crypto OR bitcoin OR ethereum OR blockchain",
   },
   hardware: {
     name: "Hardware & Gadgets",
     slug: "hardware",
     sortOrder: 7,
+    query: "smartphone OR laptop OR chip OR semiconductor OR gadget",
   },
   science: {
     name: "Science & Space",
     slug: "science",
     sortOrder: 8,
+    query: 'space OR NASA OR SpaceX OR physics OR "climate science"',
   },
 } as const;
 
@@ -56,7 +77,8 @@ export type TopicSlug = keyof typeof TOPICS;
 // Keyword Rules
 // ============================================
 
-const TOPIC_KEYWORDS: Record<TopicSlug, string[]> = {
+// Seeded into topic_keywords once per topic, then edited there
+export const DEFAULT_KEYWORDS: Record<TopicSlug, string[]> = {
   "ai-ml": [
     "artificial intelligence",
     "machine learning",
@@ -270,94 +292,250 @@ const TOPIC_KEYWORDS: Record<TopicSlug, string[]> = {
   ],
 };
 
+// Words that count against a topic, seeded like the keywords
+export const DEFAULT_NEGATIVE_KEYWORDS: Partial<Record<TopicSlug, string[]>> = {
+  cybersecurity: [
+    "securities",
+    "social security",
+    "security council",
+    "security guard",
+  ],
+  crypto: ["coal mining", "gold mining"],
+};
+
+// Generic words that count half as much as a keyword on their own
+const WEAK_DEFAULT_KEYWORDS = new Set([
+  "security",
+  "privacy",
+  "password",
+  "token",
+  "wallet",
+  "mining",
+  "decentralized",
+  "developer",
+  "framework",
+  "library",
+  "database",
+  "device",
+  "display",
+  "memory",
+  "battery",
+  "research",
+  "discovery",
+  "experiment",
+  "breakthrough",
+  "valuation",
+  "investor",
+]);
+
+/**
+ * A built-in topic's keyword rules, negatives included
+ */
+export function defaultKeywordRules(slug: TopicSlug): KeywordRule[] {
+  return [
+    ...DEFAULT_KEYWORDS[slug].map((keyword) => ({
+      keyword,
+      weight: WEAK_DEFAULT_KEYWORDS.has(keyword) ? 0.5 : 1,
+      negative: false,
+    })),
+    ...(DEFAULT_NEGATIVE_KEYWORDS[slug] ?? []).map((keyword) => ({
+      keyword,
+      weight: 1,
+      negative: true,
+    })),
+  ];
+}
+
+// A topic and the keywords that put an article in it (or rule it out)
+export interface TopicRule {
+  slug: string;
+  name: string;
+  keywords: KeywordRule[];
+}
+
+// The built-in rules, for tagging without a database
+export const DEFAULT_RULES: TopicRule[] = Object.values(TOPICS).map(
+  (topic) => ({
+    slug: topic.slug,
+    name: topic.name,
+    keywords: defaultKeywordRules(topic.slug),
+  })
+);
+
 // ============================================
 // Tagger Function
 // ============================================
 
-export type TagSource = "rule" | "ai";
+export type TagSource = "rule" | "ai" | "hint";
+
+// One topic an article belongs to, with how sure we are
+export interface TopicLabel {
+  topicSlug: string;
+  confidence: number;
+  source: TagSource;
+  matchedKeywords?: string[];
+}
+
+// A topic some rule fired for, cancelled or not - for debugging misfires
+export type TopicRuleScore = TopicScore & { topicSlug: string };
 
 export interface TagResult {
-  topicSlug: TopicSlug | null;
+  topicSlug: string | null; // Primary topic - the first label
   confidence: number;
   source: TagSource;
   matchedKeywords?: string[];
   reasoning?: string;
+  labels: TopicLabel[]; // Every topic above the threshold, best first
+  scores?: TopicRuleScore[]; // Rule tagging only, strongest first
 }
 
 // Confidence threshold below which we fall back to AI
-const AI_FALLBACK_THRESHOLD = 0.33; // Less than 1 keyword match
+const AI_FALLBACK_THRESHOLD = 0.33; // Less than one keyword in the description
+
+// Confidence a topic needs to be one of an article's labels
+export const LABEL_THRESHOLD = 0.33;
 
 /**
- * Tag an article with a topic using rule-based matching
+ * Tag an article with topics using rule-based matching
+ * Keywords match whole words and phrases, weighted by where they appear;
+ * negative keywords count against their topic. The topic with the most
+ * evidence is primary and always a label, and so is every other topic at
+ * or above LABEL_THRESHOLD (an Nvidia GPU launch is both Big Tech and
+ * Hardware).
  */
 export function tagArticleWithRules(
   title: string,
-  description?: string
+  description?: string,
+  content?: string,
+  rules: TopicRule[] = DEFAULT_RULES
 ): TagResult {
-  const text = `${title} ${description || ""}`.toLowerCase();
+  const fields = tokenizeFields({ title, description, content });
 
-  let bestMatch: TagResult = {
-    topicSlug: null,
-    confidence: 0,
-    source: "rule",
-    matchedKeywords: [],
-  };
-
-  for (const [slug, keywords] of Object.entries(TOPIC_KEYWORDS)) {
-    const matchedKeywords = keywords.filter((keyword) =>
-      text.includes(keyword.toLowerCase())
-    );
+  // Stable, so the first topic in rule order wins ties
+  const scores: TopicRuleScore[] = rules
+    .map((rule) => ({
+      topicSlug: rule.slug,
+      ...scoreTopic(fields, rule.keywords),
+    }))
+    .filter((score) => score.matches.length > 0)
+    .sort((a, b) => b.evidence - a.evidence);
 
-    // Calculate confidence based on number of matches
-    const confidence = Math.min(matchedKeywords.length / 3, 1); // Cap at 1.0
+  const best = scores[0]?.evidence > 0 ? scores[0] : null;
+  const keywordsOf = (score: TopicRuleScore) =>
+    score.matches.filter((m) => !m.negative).map((m) => m.keyword);
 
-    if (matchedKeywords.length > (bestMatch.matchedKeywords?.length || 0)) {
-      bestMatch = {
-        topicSlug: slug as TopicSlug,
-        confidence,
+  return {
+    topicSlug: best?.topicSlug ?? null,
+    confidence: best?.confidence ?? 0,
+    source: "rule",
+    matchedKeywords: best ? keywordsOf(best) : [],
+    // Even a weak primary topic, or its topic pages wouldn't list it
+    labels: scores
+      .filter((score) => score === best || score.confidence >= LABEL_THRESHOLD)
+      .map((score) => ({
+        topicSlug: score.topicSlug,
+        confidence: score.confidence,
         source: "rule",
-        matchedKeywords,
-      };
-    }
-  }
+        matchedKeywords: keywordsOf(score),
+      })),
+    scores,
+  };
+}
 
-  return bestMatch;
+/**
+ * A single-label result, for tags that don't come from the keyword rules
+ */
+function singleLabel(result: Omit<TagResult, "labels">): TagResult {
+  return {
+    ...result,
+    labels: result.topicSlug
+      ? [
+          {
+            topicSlug: result.topicSlug,
+            confidence: result.confidence,
+            source: result.source,
+          },
+        ]
+      : [],
+  };
 }
 
+// Stands in for the OpenAI call, e.g. a stub in evaluations
+export type AITagger = (
+  title: string,
+  description: string | undefined,
+  topics: TopicRule[]
+) => Promise<AITagResult>;
+
+// Confidence reported when a topic hint decides the topic
+const HINT_CONFIDENCE = 0.5;
+
 /**
  * Tag an article with a topic - uses rules first, AI fallback if uncertain
+ * A topic hint (e.g. the feed's folder) replaces the AI fallback when given
  */
 export async function tagArticle(
   title: string,
   description?: string,
-  options: { useAI?: boolean } = {}
+  options: {
+    useAI?: boolean;
+    topicHint?: string | null;
+    content?: string; // Full text, when extracted
+    rules?: TopicRule[]; // Defaults to the built-in rules
+    aiTagger?: AITagger; // Defaults to OpenAI
+  } = {}
 ): Promise<TagResult> {
-  const { useAI = true } = options;
+  const {
+    useAI = true,
+    topicHint,
+    content,
+    rules = DEFAULT_RULES,
+    aiTagger,
+  } = options;
 
   // First try rule-based tagging
-  const ruleResult = tagArticleWithRules(title, description);
+  const ruleResult = tagArticleWithRules(title, description, content, rules);
 
   // If confident enough, use rule result
   if (ruleResult.confidence >= AI_FALLBACK_THRESHOLD) {
     return ruleResult;
   }
 
+  if (topicHint) {
+    return singleLabel({
+      topicSlug: topicHint,
+      confidence: HINT_CONFIDENCE,
+      source: "hint",
+      matchedKeywords: ruleResult.matchedKeywords,
+      reasoning: "Default topic of the source",
+    });
+  }
+
+  // Topics take part once they have keywords, for the AI too
+  const aiTopics = rules.filter((rule) =>
+    rule.keywords.some((keyword) => !keyword.negative)
+  );
+
   // If AI is disabled or no API key, return rule result anyway
-  if (!useAI || !process.env.OPENAI_API_KEY) {
+  if (
+    !useAI ||
+    (!aiTagger && !process.env.OPENAI_API_KEY) ||
+    aiTopics.length === 0
+  ) {
     return ruleResult;
   }
 
   // Fall back to AI
   try {
-    const { aiTagArticle } = await import("./ai");
-    const aiResult = await aiTagArticle(title, description);
+    const aiTag = aiTagger ?? (await import("./ai")).aiTagArticle;
+    const aiResult = await aiTag(title, description, aiTopics);
 
-    return {
+    return singleLabel({
       topicSlug: aiResult.topicSlug,
       confidence: aiResult.confidence,
       source: "ai",
       reasoning: aiResult.reasoning,
-    };
+    });
   } catch (error) {
     console.error("AI tagging failed, using rule result:", error);
     return ruleResult;
@@ -365,7 +543,14 @@ export async function tagArticle(
 }
 
 /**
- * Get all topic definitions for seeding the database
+ * Check whether a string is a known topic slug
+ */
+export function isTopicSlug(slug: string): slug is TopicSlug {
+  return slug in TOPICS;
+}
+
+/**
+ * Get the built-in topic definitions for seeding the database
  */
 export function getAllTopics() {
   return Object.values(TOPICS);
@@ -0,0 +1,65 @@
+/**
+ * Parsed XML
+ * fast-xml-parser returns loosely shaped values - text, an element
+ * (attributes as "@_name", text as "#text") or an array of either - so
+ * readers narrow them with these helpers
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type XmlValue =
+  string | number | boolean | null | undefined | XmlElement | XmlValue[];
+
+export interface XmlElement {
+  [name: string]: XmlValue;
+}
+
+// ============================================
+// Reading
+// ============================================
+
+export function isElement(value: XmlValue): value is XmlElement {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A value as a list - repeated elements parse as arrays, single ones don't
+ */
+export function asArray(value: XmlValue): XmlValue[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * A child element or text of an element (undefined for anything else)
+ */
+export function child(node: XmlValue, name: string): XmlValue {
+  return isElement(node) ? node[name] : undefined;
+}
+
+/**
+ * Every child element with a name
+ */
+export function children(node: XmlValue, name: string): XmlElement[] {
+  return asArray(child(node, name)).filter(isElement);
+}
+
+/**
+ * Read the text of a node that may be text or an element with attributes
+ */
+export function textOf(node: XmlValue): string | null {
+  if (node === undefined || node === null) return null;
+  if (Array.isArray(node)) return textOf(node[0]);
+  if (isElement(node)) return textOf(node["#text"]);
+  const text = String(node).trim();
+  return text || null;
+}
+
+/**
+ * An attribute's text, null when missing or empty
+ */
+export function attr(node: XmlValue, name: string): string | null {
+  return textOf(child(node, `@_${name}`));
+}
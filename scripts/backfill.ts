@@ -0,0 +1,92 @@
+/**
+ * Backfill historical articles from the command line
+ *
+ * Usage:
+ *   npm run backfill -- --from 2026-09-01 --to 2026-09-30 [--sources gnews,newsapi] [--digests]
+ *   npm run backfill -- --resume <backfill-id>
+ *   npm run backfill -- --list
+ */
+
+import { parseArgs } from "node:util";
+import {
+  createBackfill,
+  listBackfills,
+  runBackfill,
+} from "@/lib/services/backfill";
+import { SOURCE_NAMES, type SourceName } from "@/lib/services/sources";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      sources: { type: "string" },
+      "window-hours": { type: "string" },
+      digests: { type: "boolean", default: false },
+      "max-requests": { type: "string" },
+      resume: { type: "string" },
+      list: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.list) {
+    const items = await listBackfills();
+    for (const b of items) {
+      console.log(
+        `${b.id}  ${b.status.padEnd(9)}  ${b.from.toISOString().slice(0, 10)} → ${b.to.toISOString().slice(0, 10)}  inserted ${b.inserted}, requests ${b.requestsMade}`
+      );
+    }
+    return;
+  }
+
+  const maxRequests = values["max-requests"]
+    ? parseInt(values["max-requests"], 10)
+    : 100;
+
+  let id = values.resume;
+
+  if (!id) {
+    if (!values.from || !values.to) {
+      throw new Error("--from and --to are required (or --resume <id>)");
+    }
+
+    const sources = values.sources?.split(",").map((s) => s.trim());
+    const unknown = sources?.filter(
+      (s) => !SOURCE_NAMES.includes(s as SourceName)
+    );
+    if (unknown?.length) {
+      throw new Error(`Unknown sources: ${unknown.join(", ")}`);
+    }
+
+    const backfill = await createBackfill({
+      from: new Date(values.from),
+      to: new Date(values.to),
+      sources: sources as SourceName[] | undefined,
+      windowHours: values["window-hours"]
+        ? parseInt(values["window-hours"], 10)
+        : undefined,
+      generateDigests: values.digests,
+    });
+    id = backfill.id;
+    console.log(`Created backfill ${id}`);
+  }
+
+  const result = await runBackfill(id, { maxRequests });
+
+  console.log(
+    `Backfill ${result.id} ${result.status}: ${result.fetched} fetched, ${result.inserted} inserted, ${result.duplicates} duplicates, ${result.digestsGenerated} digests, ${result.requestsMade} requests`
+  );
+  if (result.lastError) {
+    console.log(`Last error: ${result.lastError}`);
+  }
+  if (result.status === "paused" || result.status === "failed") {
+    console.log(`Resume with: npm run backfill -- --resume ${result.id}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
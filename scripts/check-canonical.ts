@@ -0,0 +1,87 @@
+/**
+ * Check canonical URL resolution against recorded responses
+ *
+ * Usage:
+ *   npm run check:canonical
+ *
+ * lib/fixtures/canonical/cases.json holds one recorded HTTP hop per URL
+ * (status, Location, saved page) and the canonical URL each starting URL
+ * should resolve to. Nothing touches the network. Exits non-zero on a
+ * mismatch.
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  resolveCanonicalUrl,
+  type PageFetcher,
+} from "@/lib/services/canonical";
+
+const FIXTURES = path.join(process.cwd(), "lib/fixtures/canonical");
+
+interface RecordedResponse {
+  status: number;
+  location?: string;
+  page?: string; // HTML file next to cases.json
+}
+
+interface CanonicalCase {
+  name: string;
+  url: string;
+  expected: { url: string; error: string | null };
+}
+
+/**
+ * A fetcher that answers from the recorded responses
+ * Unrecorded URLs throw, so a case can't pass by accident.
+ */
+function recordedFetcher(
+  responses: Record<string, RecordedResponse>
+): PageFetcher {
+  return async (url) => {
+    const response = responses[url];
+    if (!response) throw new Error(`No recorded response for ${url}`);
+
+    return {
+      status: response.status,
+      location: response.location ?? null,
+      html: response.page
+        ? await readFile(path.join(FIXTURES, response.page), "utf8")
+        : null,
+    };
+  };
+}
+
+async function main() {
+  const { responses, cases } = JSON.parse(
+    await readFile(path.join(FIXTURES, "cases.json"), "utf8")
+  ) as {
+    responses: Record<string, RecordedResponse>;
+    cases: CanonicalCase[];
+  };
+  const fetchPage = recordedFetcher(responses);
+
+  let failed = 0;
+  for (const c of cases) {
+    const result = await resolveCanonicalUrl(c.url, { fetchPage });
+    const ok =
+      result.url === c.expected.url && result.error === c.expected.error;
+
+    console.log(`${ok ? "ok  " : "FAIL"} ${c.name}`);
+    if (!ok) {
+      console.log(`     expected ${c.expected.url} (${c.expected.error})`);
+      console.log(`     got      ${result.url} (${result.error})`);
+      failed++;
+    }
+  }
+
+  console.log(
+    `\n${cases.length - failed}/${cases.length} URLs resolved as expected`
+  );
+  if (failed) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,85 @@
+/**
+ * Check full-text extraction against saved article pages
+ *
+ * Usage:
+ *   npm run check:extraction
+ *
+ * Each case in lib/fixtures/extraction/cases.json names a saved page and
+ * what extractArticle should return for it. Exits non-zero on a mismatch.
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { extractArticle } from "@/lib/services/extractor";
+
+const FIXTURES = path.join(process.cwd(), "lib/fixtures/extraction");
+
+interface ExtractionCase {
+  file: string;
+  url: string;
+  expected: {
+    title: string;
+    byline: string | null;
+    leadImageUrl: string | null;
+    minWords: number;
+    includes: string[]; // Text that must be extracted
+    excludes: string[]; // Page chrome that must not be
+  } | null; // null = the page must be rejected
+}
+
+async function checkCase(c: ExtractionCase): Promise<string[]> {
+  const html = await readFile(path.join(FIXTURES, c.file), "utf8");
+  const result = extractArticle(html, c.url);
+  const { expected } = c;
+
+  if (!expected) {
+    return result ? [`expected no content, got ${result.wordCount} words`] : [];
+  }
+  if (!result) return ["expected content, got none"];
+
+  const problems: string[] = [];
+  for (const field of ["title", "byline", "leadImageUrl"] as const) {
+    if (result[field] !== expected[field]) {
+      problems.push(
+        `${field}: expected ${JSON.stringify(expected[field])}, got ${JSON.stringify(result[field])}`
+      );
+    }
+  }
+  if (result.wordCount < expected.minWords) {
+    problems.push(
+      `wordCount: expected at least ${expected.minWords}, got ${result.wordCount}`
+    );
+  }
+  for (const text of expected.includes) {
+    if (!result.text.includes(text)) problems.push(`missing "${text}"`);
+  }
+  for (const text of expected.excludes) {
+    if (result.text.includes(text))
+      problems.push(`should not contain "${text}"`);
+  }
+  return problems;
+}
+
+async function main() {
+  const { cases } = JSON.parse(
+    await readFile(path.join(FIXTURES, "cases.json"), "utf8")
+  ) as { cases: ExtractionCase[] };
+
+  let failed = 0;
+  for (const c of cases) {
+    const problems = await checkCase(c);
+    console.log(`${problems.length ? "FAIL" : "ok  "} ${c.file}`);
+    for (const problem of problems) console.log(`     ${problem}`);
+    if (problems.length) failed++;
+  }
+
+  console.log(
+    `\n${cases.length - failed}/${cases.length} pages extracted as expected`
+  );
+  if (failed) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
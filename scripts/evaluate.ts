@@ -0,0 +1,106 @@
+/**
+ * Evaluate topic tagging against a labeled gold set
+ *
+ * Usage:
+ *   npm run evaluate                           # built-in rules, shipped gold set
+ *   npm run evaluate:db                        # the rules in the database (.env)
+ *   npm run evaluate -- --pipeline             # full tagger, AI stubbed to abstain
+ *   npm run evaluate -- --gold my-set.json [--json]
+ */
+
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import {
+  evaluateTagging,
+  loadDefaultGoldSet,
+  parseGoldSet,
+  type EvaluationReport,
+} from "@/lib/services/evaluation";
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`.padStart(6);
+}
+
+function printReport(report: EvaluationReport) {
+  console.log(
+    `${report.goldSet} (${report.mode}): ${report.total} articles, primary accuracy ${percent(report.primaryAccuracy)}, macro F1 ${percent(report.macroF1)}, micro F1 ${percent(report.microF1)}`
+  );
+
+  console.log(
+    "\ntopic            expected  predicted  precision  recall      F1"
+  );
+  for (const t of report.topics) {
+    console.log(
+      `${t.topicSlug.padEnd(16)} ${String(t.expected).padStart(8)} ${String(t.predicted).padStart(10)} ${percent(t.precision).padStart(10)} ${percent(t.recall).padStart(7)} ${percent(t.f1).padStart(7)}`
+    );
+  }
+
+  // Rows are the expected primary topic, columns the predicted one
+  const { labels, matrix } = report.confusion;
+  const width = Math.max(...labels.map((l) => l.length)) + 1;
+  console.log("\nconfusion (expected ↓ / predicted →)");
+  console.log(
+    " ".repeat(width) + labels.map((l) => l.padStart(width)).join("")
+  );
+  labels.forEach((label, i) => {
+    console.log(
+      label.padEnd(width) +
+        matrix[i].map((n) => String(n || ".").padStart(width)).join("")
+    );
+  });
+
+  console.log(
+    `\ndecided by: ${Object.entries(report.sources)
+      .map(([source, n]) => `${source} ${n}`)
+      .join(
+        ", "
+      )}${report.mode === "pipeline" ? `, left to AI ${report.leftToAI}` : ""}`
+  );
+
+  if (report.misses.length > 0) {
+    console.log(`\nmisses (${report.misses.length}):`);
+    for (const miss of report.misses) {
+      console.log(
+        `  ${miss.id}: expected [${miss.expected.join(", ")}], got [${miss.predicted.join(", ")}]${miss.source ? ` via ${miss.source}` : ""} - ${miss.title}`
+      );
+    }
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      gold: { type: "string" },
+      db: { type: "boolean", default: false },
+      pipeline: { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const goldSet = values.gold
+    ? parseGoldSet(JSON.parse(await readFile(values.gold, "utf8")))
+    : loadDefaultGoldSet();
+
+  // Only touch the database when asked to
+  const rules = values.db
+    ? await (await import("@/lib/services/rules")).getTaggingRules()
+    : undefined;
+
+  const report = await evaluateTagging(goldSet, {
+    mode: values.pipeline ? "pipeline" : "rules",
+    rules,
+  });
+
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,43 @@
+/**
+ * Run the background job worker locally
+ *
+ * Usage:
+ *   npm run worker            # poll for jobs until stopped
+ *   npm run worker -- --once  # drain due jobs, then exit
+ */
+
+import { parseArgs } from "node:util";
+import { runJobs } from "@/lib/services/jobs";
+
+const POLL_INTERVAL_MS = 5000;
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      once: { type: "boolean", default: false },
+    },
+  });
+
+  while (true) {
+    const result = await runJobs({ maxJobs: 100 });
+
+    if (result.processed > 0) {
+      console.log(
+        `${result.workerId}: ${result.completed} completed, ${result.retried} retried, ${result.dead} dead`
+      );
+    }
+
+    if (values.once) return;
+
+    if (result.processed === 0) {
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -34,3 +34,34 @@ export const optionalAuthMiddleware = timingMiddleware.use(
     });
   }
 );
+
+/**
+ * Comma-separated ADMIN_EMAILS, lowercased
+ */
+function getAdminEmails(): string[] {
+  return (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Whether an email is listed in ADMIN_EMAILS
+ */
+export function isAdminEmail(email: string | null | undefined): boolean {
+  return !!email && getAdminEmails().includes(email.toLowerCase());
+}
+
+/**
+ * Middleware that enforces an authenticated user listed in ADMIN_EMAILS
+ */
+export const adminMiddleware = authMiddleware.use(async ({ ctx, next }) => {
+  if (!isAdminEmail(ctx.user.email)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Admin access required",
+    });
+  }
+
+  return next();
+});
@@ -1,35 +1,74 @@
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
 import { createTRPCRouter } from "@/server/trpc";
-import { publicProcedure } from "@/server/procedures";
-import { articles } from "@/db/schema";
-import { eq, desc, and, gte, lt, count } from "drizzle-orm";
+import { publicProcedure, userProcedure } from "@/server/procedures";
+import {
+  articles,
+  articleTagEvents,
+  articleTopics,
+  storyClusters,
+  topics,
+} from "@/db/schema";
+import {
+  eq,
+  desc,
+  and,
+  gte,
+  lt,
+  count,
+  inArray,
+  isNotNull,
+  isNull,
+  or,
+} from "drizzle-orm";
+import { getCluster, otherPublishers } from "@/lib/services/clusters";
+import { labeledWith } from "@/lib/services/labels";
+import { setArticleTopic } from "@/lib/services/retag";
+
+// Lowercase ISO 639-1 code, as stored on articles
+const languageInput = z
+  .string()
+  .regex(/^[a-zA-Z]{2,3}$/)
+  .transform((l) => l.toLowerCase());
 
 export const articleRouter = createTRPCRouter({
   /**
-   * Get recent articles, optionally filtered by topic
+   * Get recent articles, optionally filtered by topic (any of an article's
+   * labels) and language
    */
   list: publicProcedure
     .input(
       z
         .object({
           topicId: z.string().uuid().optional(),
+          language: languageInput.optional(),
           limit: z.number().min(1).max(100).default(20),
           offset: z.number().min(0).default(0),
         })
         .optional()
     )
     .query(async ({ ctx, input }) => {
-      const { topicId, limit = 20, offset = 0 } = input ?? {};
+      const { topicId, language, limit = 20, offset = 0 } = input ?? {};
 
-      const conditions = topicId ? eq(articles.topicId, topicId) : undefined;
+      const conditions = [];
+      if (topicId) {
+        conditions.push(labeledWith(topicId));
+      }
+      if (language) {
+        conditions.push(eq(articles.language, language));
+      }
 
       const items = await ctx.db.query.articles.findMany({
-        where: conditions,
+        where: conditions.length > 0 ? and(...conditions) : undefined,
         orderBy: [desc(articles.publishedAt)],
         limit,
         offset,
         with: {
           topic: true,
+          topics: {
+            with: { topic: true },
+            orderBy: [desc(articleTopics.confidence)],
+          },
         },
       });
 
@@ -37,7 +76,7 @@ export const articleRouter = createTRPCRouter({
     }),
 
   /**
-   * Get a single article by ID
+   * Get a single article by ID, with how each tagging run decided
    */
   getById: publicProcedure
     .input(z.object({ id: z.string().uuid() }))
@@ -46,6 +85,18 @@ export const articleRouter = createTRPCRouter({
         where: eq(articles.id, input.id),
         with: {
           topic: true,
+          topics: {
+            with: { topic: true },
+            orderBy: [desc(articleTopics.confidence)],
+          },
+          tagEvents: {
+            with: {
+              topic: true,
+              previousTopic: true,
+              user: { columns: { id: true, name: true } },
+            },
+            orderBy: [desc(articleTagEvents.createdAt)],
+          },
         },
       });
 
@@ -61,23 +112,32 @@ export const articleRouter = createTRPCRouter({
         .object({
           hours: z.number().min(1).max(168).default(24), // Max 1 week
           topicId: z.string().uuid().optional(),
+          language: languageInput.optional(),
         })
         .optional()
     )
     .query(async ({ ctx, input }) => {
-      const { hours = 24, topicId } = input ?? {};
+      const { hours = 24, topicId, language } = input ?? {};
 
       const since = new Date(Date.now() - hours * 60 * 60 * 1000);
 
-      const conditions = topicId
-        ? and(eq(articles.topicId, topicId), gte(articles.publishedAt, since))
-        : gte(articles.publishedAt, since);
+      const conditions = [gte(articles.publishedAt, since)];
+      if (topicId) {
+        conditions.push(labeledWith(topicId));
+      }
+      if (language) {
+        conditions.push(eq(articles.language, language));
+      }
 
       const items = await ctx.db.query.articles.findMany({
-        where: conditions,
+        where: and(...conditions),
         orderBy: [desc(articles.publishedAt)],
         with: {
           topic: true,
+          topics: {
+            with: { topic: true },
+            orderBy: [desc(articleTopics.confidence)],
+          },
         },
       });
 
@@ -87,6 +147,8 @@ export const articleRouter = createTRPCRouter({
   /**
    * Paginated articles with cursor-based pagination
    * Returns articles grouped by date
+   * With collapseClusters, a story covered by several outlets is one row
+   * (its lead article) listing the others in alsoCoveredBy
    */
   browse: publicProcedure
     .input(
@@ -94,10 +156,12 @@ export const articleRouter = createTRPCRouter({
         limit: z.number().min(1).max(50).default(20),
         cursor: z.string().datetime().optional(), // ISO date string cursor
         topicId: z.string().uuid().optional(),
+        language: languageInput.optional(),
+        collapseClusters: z.boolean().default(false),
       })
     )
     .query(async ({ ctx, input }) => {
-      const { limit, cursor, topicId } = input;
+      const { limit, cursor, topicId, language, collapseClusters } = input;
 
       // Build conditions
       const conditions = [];
@@ -105,21 +169,48 @@ export const articleRouter = createTRPCRouter({
         conditions.push(lt(articles.publishedAt, new Date(cursor)));
       }
       if (topicId) {
-        conditions.push(eq(articles.topicId, topicId));
+        conditions.push(labeledWith(topicId));
+      }
+      if (language) {
+        conditions.push(eq(articles.language, language));
+      }
+      if (collapseClusters) {
+        conditions.push(
+          or(
+            isNull(articles.clusterId),
+            inArray(
+              articles.id,
+              ctx.db
+                .select({ id: storyClusters.leadArticleId })
+                .from(storyClusters)
+            )
+          )!
+        );
       }
 
       const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
 
       // Fetch articles
-      const items = await ctx.db.query.articles.findMany({
+      const rows = await ctx.db.query.articles.findMany({
         where: whereClause,
         orderBy: [desc(articles.publishedAt)],
         limit: limit + 1, // Fetch one extra to check if there's more
         with: {
           topic: true,
+          topics: {
+            with: { topic: true },
+            orderBy: [desc(articleTopics.confidence)],
+          },
+          cluster: true,
+          story: true,
         },
       });
 
+      const items = rows.map((item) => ({
+        ...item,
+        alsoCoveredBy: otherPublishers(item.cluster, item.publisherName),
+      }));
+
       // Check if there's a next page
       let nextCursor: string | undefined;
       if (items.length > limit) {
@@ -138,4 +229,78 @@ export const articleRouter = createTRPCRouter({
         totalCount: totalResult?.count ?? 0,
       };
     }),
+
+  /**
+   * A story cluster with all its articles, earliest first
+   */
+  cluster: publicProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ input }) => {
+      const cluster = await getCluster(input.id);
+
+      if (!cluster) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Cluster not found",
+        });
+      }
+
+      return cluster;
+    }),
+
+  /**
+   * Set an article's topic by hand (null to clear it), recording who did
+   * it. Locked articles are left alone by automated re-tagging.
+   */
+  setTopic: userProcedure
+    .input(
+      z.object({
+        id: z.string().uuid(),
+        topicId: z.string().uuid().nullable(),
+        lock: z.boolean().default(true),
+        note: z.string().max(500).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.topicId) {
+        const topic = await ctx.db.query.topics.findFirst({
+          where: eq(topics.id, input.topicId),
+        });
+        if (!topic) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Topic not found",
+          });
+        }
+      }
+
+      const result = await setArticleTopic(input.id, input.topicId, {
+        userId: ctx.user.id!,
+        lock: input.lock,
+        note: input.note,
+      });
+
+      if (!result) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Article not found",
+        });
+      }
+
+      return result;
+    }),
+
+  /**
+   * Languages that have articles, most common first
+   */
+  languages: publicProcedure.query(async ({ ctx }) => {
+    const rows = await ctx.db
+      .select({ language: articles.language, count: count() })
+      .from(articles)
+      .where(isNotNull(articles.language))
+      .groupBy(articles.language)
+      .orderBy(desc(count()));
+
+    return rows.map((r) => ({ language: r.language!, count: r.count }));
+  }),
 });
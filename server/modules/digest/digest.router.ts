@@ -7,11 +7,22 @@ import {
   getLatestDigest,
   getDigests,
 } from "@/lib/services/digest";
+import { enqueueJob } from "@/lib/services/jobs";
+
+// Scopes a digest to articles in one language, written in it
+// null (or omitted) = the digest covering all languages
+const languageInput = z
+  .string()
+  .regex(/^[a-zA-Z]{2,3}$/)
+  .transform((l) => l.toLowerCase())
+  .nullable();
 
 export const digestRouter = createTRPCRouter({
   /**
    * Generate a daily digest
    * Can be global (no topicId) or topic-specific
+   * With async, the digest is queued (one job per topic and day) and the job
+   * ID returned straight away
    */
   generate: publicProcedure
     .input(
@@ -21,18 +32,32 @@ export const digestRouter = createTRPCRouter({
           date: z.string().datetime().optional(),
           forceRegenerate: z.boolean().default(false),
           maxArticles: z.number().min(1).max(100).default(70),
+          language: languageInput.optional(),
+          async: z.boolean().default(false),
         })
         .optional()
     )
     .mutation(async ({ input }) => {
+      if (input?.async) {
+        const job = await enqueueJob("digest", {
+          topicId: input.topicId ?? null,
+          date: input.date,
+          forceRegenerate: input.forceRegenerate,
+          maxArticles: input.maxArticles,
+          language: input.language ?? null,
+        });
+        return { queued: true as const, ...job };
+      }
+
       const result = await generateDailyDigest({
         topicId: input?.topicId ?? null,
         date: input?.date ? new Date(input.date) : new Date(),
         forceRegenerate: input?.forceRegenerate ?? false,
         maxArticles: input?.maxArticles ?? 70,
+        language: input?.language ?? null,
       });
 
-      return result;
+      return { queued: false as const, digest: result };
     }),
 
   /**
@@ -45,6 +70,7 @@ export const digestRouter = createTRPCRouter({
         .object({
           date: z.string().datetime().optional(),
           forceRegenerate: z.boolean().default(false),
+          language: languageInput.optional(),
         })
         .optional()
     )
@@ -52,6 +78,7 @@ export const digestRouter = createTRPCRouter({
       const result = await generateAllDailyDigests({
         date: input?.date ? new Date(input.date) : new Date(),
         forceRegenerate: input?.forceRegenerate ?? false,
+        language: input?.language ?? null,
       });
 
       return result;
@@ -65,11 +92,12 @@ export const digestRouter = createTRPCRouter({
       z
         .object({
           topicId: z.string().uuid().nullable().optional(),
+          language: languageInput.optional(),
         })
         .optional()
     )
     .query(async ({ input }) => {
-      const digest = await getLatestDigest(input?.topicId);
+      const digest = await getLatestDigest(input?.topicId, input?.language);
       return digest ?? null;
     }),
 
@@ -82,6 +110,7 @@ export const digestRouter = createTRPCRouter({
         .object({
           type: z.enum(["daily", "weekly"]).default("daily"),
           topicId: z.string().uuid().nullable().optional(),
+          language: languageInput.optional(),
           limit: z.number().min(1).max(50).default(10),
         })
         .optional()
@@ -90,6 +119,7 @@ export const digestRouter = createTRPCRouter({
       const digests = await getDigests({
         type: input?.type ?? "daily",
         topicId: input?.topicId,
+        language: input?.language,
         limit: input?.limit ?? 10,
       });
 
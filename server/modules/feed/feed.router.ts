@@ -0,0 +1,101 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter } from "@/server/trpc";
+import { adminProcedure, publicProcedure } from "@/server/procedures";
+import { addFeed, listFeeds, setFeedEnabled } from "@/lib/services/feeds";
+import { exportOpml, importOpml } from "@/lib/services/opml";
+
+export const feedRouter = createTRPCRouter({
+  /**
+   * List registered RSS/Atom feeds
+   */
+  list: publicProcedure
+    .input(
+      z
+        .object({
+          enabledOnly: z.boolean().default(false),
+        })
+        .optional()
+    )
+    .query(async ({ input }) => {
+      const items = await listFeeds({
+        enabledOnly: input?.enabledOnly ?? false,
+      });
+      return items;
+    }),
+
+  /**
+   * Register a feed - it is fetched once to validate it and read its title
+   * Admin-only: the server fetches whatever URL is given.
+   */
+  add: adminProcedure
+    .input(
+      z.object({
+        url: z.string().url(),
+        title: z.string().min(1).max(500).optional(),
+        topicId: z.string().uuid().nullable().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      try {
+        return await addFeed(input.url, {
+          title: input.title,
+          topicId: input.topicId,
+        });
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Invalid feed",
+        });
+      }
+    }),
+
+  /**
+   * Enable or disable polling for a feed
+   */
+  setEnabled: adminProcedure
+    .input(
+      z.object({
+        id: z.string().uuid(),
+        enabled: z.boolean(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const feed = await setFeedEnabled(input.id, input.enabled);
+
+      if (!feed) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Feed not found" });
+      }
+
+      return feed;
+    }),
+
+  /**
+   * Bulk-register feeds from an OPML document
+   * Folders named after a topic become the feed's default topic
+   */
+  importOpml: adminProcedure
+    .input(
+      z.object({
+        opml: z.string().min(1).max(5_000_000),
+      })
+    )
+    .mutation(async ({ input }) => {
+      try {
+        return await importOpml(input.opml);
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Invalid OPML",
+        });
+      }
+    }),
+
+  /**
+   * Export registered feeds as an OPML document
+   */
+  exportOpml: publicProcedure.query(async () => {
+    const opml = await exportOpml();
+    return { opml };
+  }),
+});
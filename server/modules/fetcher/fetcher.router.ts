@@ -1,32 +1,70 @@
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
 import { createTRPCRouter } from "@/server/trpc";
-import { publicProcedure } from "@/server/procedures";
+import {
+  adminProcedure,
+  optionalUserProcedure,
+  publicProcedure,
+} from "@/server/procedures";
+import { isAdminEmail } from "@/server/middleware/auth";
 import {
   fetchAndStoreArticles,
   seedTopics,
   getFetchStats,
 } from "@/lib/services/fetcher";
+import { SOURCE_NAMES } from "@/lib/services/sources";
+import {
+  createBackfill,
+  runBackfill,
+  listBackfills,
+} from "@/lib/services/backfill";
+import { getFetchRun, listFetchRuns } from "@/lib/services/runs";
+import { enqueueJob } from "@/lib/services/jobs";
 
 export const fetcherRouter = createTRPCRouter({
   /**
-   * Trigger a fetch from GNews
-   * In production, this would be called by a cron job
+   * Trigger a fetch from the enabled news sources
+   * With async (admin), the fetch is queued and the job ID returned
+   * straight away
    */
-  fetch: publicProcedure
+  fetch: optionalUserProcedure
     .input(
       z
         .object({
           max: z.number().min(1).max(100).default(10),
           useAI: z.boolean().default(true),
+          sources: z.array(z.enum(SOURCE_NAMES)).optional(),
+          extractContent: z.boolean().default(true),
+          canonicalize: z.boolean().default(true),
+          topicQueries: z.boolean().default(true),
+          async: z.boolean().default(false),
         })
         .optional()
     )
-    .mutation(async ({ input }) => {
-      const result = await fetchAndStoreArticles({
+    .mutation(async ({ ctx, input }) => {
+      if (input?.async && !isAdminEmail(ctx.user?.email)) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Admin access required to queue fetches",
+        });
+      }
+
+      const options = {
         maxArticles: input?.max ?? 50,
         useAI: input?.useAI ?? true,
-      });
-      return result;
+        sources: input?.sources,
+        extractContent: input?.extractContent ?? true,
+        canonicalize: input?.canonicalize ?? true,
+        topicQueries: input?.topicQueries ?? true,
+      };
+
+      if (input?.async) {
+        const job = await enqueueJob("fetch", options);
+        return { queued: true as const, ...job };
+      }
+
+      const result = await fetchAndStoreArticles(options);
+      return { queued: false as const, ...result };
     }),
 
   /**
@@ -44,4 +82,103 @@ export const fetcherRouter = createTRPCRouter({
     const stats = await getFetchStats();
     return stats;
   }),
+
+  /**
+   * Start a backfill for a date range, or resume one by ID
+   * Each call makes at most maxRequests provider requests, then pauses
+   */
+  backfill: adminProcedure
+    .input(
+      z.union([
+        z.object({
+          id: z.string().uuid(),
+          maxRequests: z.number().min(1).max(100).default(10),
+        }),
+        z.object({
+          from: z.string().datetime(),
+          to: z.string().datetime(),
+          sources: z.array(z.enum(SOURCE_NAMES)).optional(),
+          windowHours: z.number().min(1).max(168).default(24),
+          generateDigests: z.boolean().default(false),
+          maxRequests: z.number().min(1).max(100).default(10),
+        }),
+      ])
+    )
+    .mutation(async ({ input }) => {
+      try {
+        const id =
+          "id" in input
+            ? input.id
+            : (
+                await createBackfill({
+                  from: new Date(input.from),
+                  to: new Date(input.to),
+                  sources: input.sources,
+                  windowHours: input.windowHours,
+                  generateDigests: input.generateDigests,
+                })
+              ).id;
+
+        return await runBackfill(id, { maxRequests: input.maxRequests });
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Backfill failed",
+        });
+      }
+    }),
+
+  /**
+   * List recent backfills with their progress
+   */
+  backfills: adminProcedure
+    .input(
+      z
+        .object({
+          limit: z.number().min(1).max(50).default(20),
+        })
+        .optional()
+    )
+    .query(async ({ input }) => {
+      const items = await listBackfills(input?.limit ?? 20);
+      return items;
+    }),
+
+  /**
+   * Fetch run history, newest first
+   */
+  runs: adminProcedure
+    .input(
+      z
+        .object({
+          limit: z.number().min(1).max(100).default(20),
+          offset: z.number().min(0).default(0),
+        })
+        .optional()
+    )
+    .query(async ({ input }) => {
+      const runs = await listFetchRuns({
+        limit: input?.limit ?? 20,
+        offset: input?.offset ?? 0,
+      });
+      return runs;
+    }),
+
+  /**
+   * A single run with its per-source counts and errors
+   */
+  run: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ input }) => {
+      const run = await getFetchRun(input.id);
+
+      if (!run) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Fetch run not found",
+        });
+      }
+
+      return run;
+    }),
 });
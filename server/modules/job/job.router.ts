@@ -0,0 +1,177 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter } from "@/server/trpc";
+import { adminProcedure, publicProcedure } from "@/server/procedures";
+import { SOURCE_NAMES } from "@/lib/services/sources";
+import {
+  enqueueJob,
+  getJob,
+  getJobCounts,
+  listJobs,
+  retryJob,
+  JOB_KINDS,
+} from "@/lib/services/jobs";
+
+const enqueueInput = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("fetch"),
+    payload: z
+      .object({
+        maxArticles: z.number().min(1).max(100).optional(),
+        useAI: z.boolean().optional(),
+        sources: z.array(z.enum(SOURCE_NAMES)).optional(),
+        extractContent: z.boolean().optional(),
+        canonicalize: z.boolean().optional(),
+        topicQueries: z.boolean().optional(),
+      })
+      .default({}),
+  }),
+  z.object({
+    kind: z.literal("digest"),
+    payload: z.object({
+      topicId: z.string().uuid().nullable(),
+      date: z.string().datetime().optional(),
+      forceRegenerate: z.boolean().optional(),
+      maxArticles: z.number().min(1).max(100).optional(),
+      language: z
+        .string()
+        .regex(/^[a-zA-Z]{2,3}$/)
+        .transform((l) => l.toLowerCase())
+        .nullable()
+        .optional(),
+    }),
+  }),
+  z.object({
+    kind: z.literal("digests"),
+    payload: z
+      .object({
+        date: z.string().datetime().optional(),
+        forceRegenerate: z.boolean().optional(),
+        language: z
+          .string()
+          .regex(/^[a-zA-Z]{2,3}$/)
+          .transform((l) => l.toLowerCase())
+          .nullable()
+          .optional(),
+      })
+      .default({}),
+  }),
+  z.object({
+    kind: z.literal("digest-image"),
+    payload: z.object({ digestId: z.string().uuid() }),
+  }),
+  z.object({
+    kind: z.literal("tag-article"),
+    payload: z.object({ articleId: z.string().uuid() }),
+  }),
+  z.object({
+    kind: z.literal("cluster-articles"),
+    payload: z
+      .object({ hours: z.number().min(1).max(720).optional() }) // Up to 30 days
+      .default({}),
+  }),
+  z.object({
+    kind: z.literal("attach-stories"),
+    payload: z
+      .object({ hours: z.number().min(1).max(720).optional() })
+      .default({}),
+  }),
+  z.object({
+    kind: z.literal("backfill-labels"),
+    payload: z.object({}).strict().default({}),
+  }),
+  z.object({
+    kind: z.literal("retag"),
+    payload: z.object({
+      filter: z
+        .object({
+          from: z.string().datetime().optional(),
+          to: z.string().datetime().optional(),
+          topicId: z.string().uuid().optional(),
+          untaggedOnly: z.boolean().optional(),
+          aiTaggedOnly: z.boolean().optional(),
+        })
+        .default({}),
+    }),
+  }),
+]);
+
+export const jobRouter = createTRPCRouter({
+  /**
+   * Queue a job - returns the pending one instead if it's a duplicate
+   * Admin-only, as most kinds work through every article; fetches and
+   * digests can still be queued with `async: true` on their own routes
+   */
+  enqueue: adminProcedure.input(enqueueInput).mutation(async ({ input }) => {
+    const result = await enqueueJob(input.kind, input.payload);
+    return result;
+  }),
+
+  /**
+   * List jobs, newest first
+   */
+  list: publicProcedure
+    .input(
+      z
+        .object({
+          status: z
+            .enum(["pending", "running", "completed", "dead"])
+            .optional(),
+          kind: z.enum(JOB_KINDS).optional(),
+          limit: z.number().min(1).max(100).default(20),
+          offset: z.number().min(0).default(0),
+        })
+        .optional()
+    )
+    .query(async ({ input }) => {
+      const jobs = await listJobs({
+        status: input?.status,
+        kind: input?.kind,
+        limit: input?.limit ?? 20,
+        offset: input?.offset ?? 0,
+      });
+      return jobs;
+    }),
+
+  /**
+   * Get a job with its result or last error
+   */
+  get: publicProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ input }) => {
+      const job = await getJob(input.id);
+
+      if (!job) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Job not found",
+        });
+      }
+
+      return job;
+    }),
+
+  /**
+   * Number of jobs in each status
+   */
+  counts: publicProcedure.query(async () => {
+    const counts = await getJobCounts();
+    return counts;
+  }),
+
+  /**
+   * Requeue a dead-lettered job
+   */
+  retry: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input }) => {
+      try {
+        return await retryJob(input.id);
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Retry failed",
+        });
+      }
+    }),
+});
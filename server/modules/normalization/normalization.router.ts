@@ -0,0 +1,87 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter } from "@/server/trpc";
+import { adminProcedure } from "@/server/procedures";
+import {
+  deleteUrlRule,
+  getUrlRules,
+  previewUrl,
+  upsertUrlRule,
+} from "@/lib/services/normalization";
+import { enqueueJob } from "@/lib/services/jobs";
+
+const paramList = z.array(z.string().min(1).max(100)).max(100);
+
+export const normalizationRouter = createTRPCRouter({
+  /**
+   * List URL normalization rules
+   */
+  rules: adminProcedure.query(async () => {
+    const rules = await getUrlRules();
+    return rules;
+  }),
+
+  /**
+   * Create or replace the rule for a host ("*" for every host)
+   * Queues a rehash of stored articles under the new rules
+   */
+  upsertRule: adminProcedure
+    .input(
+      z.object({
+        host: z.string().min(1).max(255),
+        stripParams: paramList.optional(),
+        keepParams: paramList.optional(),
+        caseSensitivePath: z.boolean().nullable().optional(),
+        aliasOf: z.string().max(255).nullable().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      let rule;
+      try {
+        rule = await upsertUrlRule(input);
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Invalid rule",
+        });
+      }
+
+      const rehash = await enqueueJob("rehash-urls", {});
+      return { rule, rehashJobId: rehash.jobId };
+    }),
+
+  /**
+   * Delete a rule and queue a rehash
+   */
+  deleteRule: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input }) => {
+      const deleted = await deleteUrlRule(input.id);
+
+      if (!deleted) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Rule not found" });
+      }
+
+      const rehash = await enqueueJob("rehash-urls", {});
+      return { success: true, rehashJobId: rehash.jobId };
+    }),
+
+  /**
+   * What a URL normalizes and hashes to, and the article it would dedup
+   * against
+   */
+  preview: adminProcedure
+    .input(z.object({ url: z.string().min(1).max(5000) }))
+    .query(async ({ input }) => {
+      const preview = await previewUrl(input.url);
+      return preview;
+    }),
+
+  /**
+   * Recompute stored URL hashes under the current rules
+   */
+  rehash: adminProcedure.mutation(async () => {
+    const job = await enqueueJob("rehash-urls", {});
+    return job;
+  }),
+});
@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter } from "@/server/trpc";
+import { adminProcedure, publicProcedure } from "@/server/procedures";
+import {
+  addIngestionProfile,
+  deleteIngestionProfile,
+  listIngestionProfiles,
+  setIngestionProfileEnabled,
+} from "@/lib/services/profiles";
+
+export const profileRouter = createTRPCRouter({
+  /**
+   * List ingestion profiles
+   * With none enabled, fetches use English / US
+   */
+  list: publicProcedure.query(async () => {
+    const profiles = await listIngestionProfiles();
+    return profiles;
+  }),
+
+  /**
+   * Add a language/region to fetch the general query in
+   */
+  add: adminProcedure
+    .input(
+      z.object({
+        name: z.string().min(1).max(100),
+        language: z.string().min(2).max(3), // ISO 639-1, e.g. "de"
+        country: z.string().length(2), // ISO 3166-1, e.g. "de"
+        query: z.string().max(500).nullable().optional(),
+        maxArticles: z.number().min(1).max(100).optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      try {
+        return await addIngestionProfile(input);
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Invalid profile",
+        });
+      }
+    }),
+
+  /**
+   * Enable or disable a profile
+   */
+  setEnabled: adminProcedure
+    .input(
+      z.object({
+        id: z.string().uuid(),
+        enabled: z.boolean(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const profile = await setIngestionProfileEnabled(input.id, input.enabled);
+
+      if (!profile) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Profile not found",
+        });
+      }
+
+      return profile;
+    }),
+
+  /**
+   * Delete a profile - articles it fetched are kept
+   */
+  delete: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input }) => {
+      const deleted = await deleteIngestionProfile(input.id);
+
+      if (!deleted) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Profile not found",
+        });
+      }
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { createTRPCRouter } from "@/server/trpc";
+import { publicProcedure } from "@/server/procedures";
+import {
+  getReviewCounts,
+  listReviewQueue,
+  suggestKeywords,
+} from "@/lib/services/review";
+
+export const reviewRouter = createTRPCRouter({
+  /**
+   * Untagged and low-confidence articles, newest first
+   * Assign a topic (or none) with article.setTopic to take one off.
+   */
+  queue: publicProcedure
+    .input(
+      z
+        .object({
+          reason: z.enum(["untagged", "low-confidence"]).optional(), // Both by default
+          limit: z.number().min(1).max(100).default(20),
+          offset: z.number().min(0).default(0),
+        })
+        .optional()
+    )
+    .query(async ({ input }) => {
+      return listReviewQueue({
+        reason: input?.reason,
+        limit: input?.limit ?? 20,
+        offset: input?.offset ?? 0,
+      });
+    }),
+
+  /**
+   * How many articles are queued, by reason
+   */
+  counts: publicProcedure.query(async () => {
+    return getReviewCounts();
+  }),
+
+  /**
+   * Frequent terms in the queue that no keyword rule covers
+   */
+  suggestKeywords: publicProcedure
+    .input(
+      z
+        .object({
+          limit: z.number().min(1).max(100).default(30),
+          minArticles: z.number().min(1).max(100).default(2),
+        })
+        .optional()
+    )
+    .query(async ({ input }) => {
+      return suggestKeywords({
+        limit: input?.limit,
+        minArticles: input?.minArticles,
+      });
+    }),
+});
@@ -0,0 +1,220 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter } from "@/server/trpc";
+import { adminProcedure } from "@/server/procedures";
+import { topics } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import {
+  addKeyword,
+  createTopic,
+  deleteKeyword,
+  deleteTopic,
+  getTaggingRules,
+  listTaggingRules,
+  updateKeyword,
+  updateTopic,
+} from "@/lib/services/rules";
+import { tagArticleWithRules } from "@/lib/services/tagger";
+import { evaluateTagging, loadDefaultGoldSet } from "@/lib/services/evaluation";
+
+const topicFields = {
+  name: z.string().trim().min(1).max(100),
+  slug: z.string().min(1).max(50),
+  description: z.string().max(1000).nullable().optional(),
+  sortOrder: z.number().int().min(0).max(1000).optional(),
+};
+
+const keywordFields = {
+  keyword: z.string().min(1).max(200),
+  weight: z.number().min(0.1).max(10).optional(), // Evidence per match, 1 = ordinary
+  negative: z.boolean().optional(), // Counts against the topic when it matches
+};
+
+/**
+ * Run a rules change, turning validation errors into BAD_REQUEST
+ */
+async function applyChange<T>(change: () => Promise<T>): Promise<T> {
+  try {
+    return await change();
+  } catch (error) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: error instanceof Error ? error.message : "Invalid change",
+    });
+  }
+}
+
+export const taggingRulesRouter = createTRPCRouter({
+  /**
+   * Every topic with its keywords
+   */
+  list: adminProcedure.query(async () => {
+    const rules = await listTaggingRules();
+    return rules;
+  }),
+
+  /**
+   * Run the keyword rules on a text and report every rule that fired
+   */
+  test: adminProcedure
+    .input(
+      z.object({
+        title: z.string().min(1).max(1000),
+        description: z.string().max(5000).optional(),
+        content: z.string().max(100_000).optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const rules = await getTaggingRules({ fresh: true });
+      return tagArticleWithRules(
+        input.title,
+        input.description,
+        input.content,
+        rules
+      );
+    }),
+
+  /**
+   * Score tagging against the shipped gold set - with the saved rules, or
+   * with candidate rules to check a change before saving it
+   */
+  evaluate: adminProcedure
+    .input(
+      z.object({
+        mode: z.enum(["rules", "pipeline"]).default("rules"),
+        rules: z
+          .array(
+            z.object({
+              slug: z.string().min(1).max(50),
+              name: z.string().min(1).max(100),
+              keywords: z
+                .array(
+                  z.object({
+                    keyword: keywordFields.keyword,
+                    weight: z.number().min(0.1).max(10).default(1),
+                    negative: z.boolean().default(false),
+                  })
+                )
+                .max(1000),
+            })
+          )
+          .max(100)
+          .optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const rules = input.rules ?? (await getTaggingRules({ fresh: true }));
+      const report = await evaluateTagging(loadDefaultGoldSet(), {
+        mode: input.mode,
+        rules,
+      });
+      return report;
+    }),
+
+  /**
+   * Create a topic - add keywords to it before the tagger can pick it
+   */
+  createTopic: adminProcedure
+    .input(z.object(topicFields))
+    .mutation(async ({ input }) => {
+      const topic = await applyChange(() => createTopic(input));
+      return topic;
+    }),
+
+  /**
+   * Rename, re-describe or reorder a topic
+   */
+  updateTopic: adminProcedure
+    .input(
+      z
+        .object({ id: z.string().uuid(), ...topicFields })
+        .partial()
+        .required({ id: true })
+    )
+    .mutation(async ({ input }) => {
+      const { id, ...values } = input;
+      const topic = await applyChange(() => updateTopic(id, values));
+
+      if (!topic) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Topic not found" });
+      }
+
+      return topic;
+    }),
+
+  /**
+   * Delete a topic added here - its articles become untagged
+   */
+  deleteTopic: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input }) => {
+      const deleted = await applyChange(() => deleteTopic(input.id));
+
+      if (!deleted) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Topic not found" });
+      }
+
+      return { success: true };
+    }),
+
+  /**
+   * Add a keyword, phrase or negative keyword to a topic
+   */
+  addKeyword: adminProcedure
+    .input(z.object({ topicId: z.string().uuid(), ...keywordFields }))
+    .mutation(async ({ ctx, input }) => {
+      const topic = await ctx.db.query.topics.findFirst({
+        where: eq(topics.id, input.topicId),
+      });
+
+      if (!topic) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Topic not found" });
+      }
+
+      const { topicId, ...values } = input;
+      const created = await applyChange(() => addKeyword(topicId, values));
+      return created;
+    }),
+
+  /**
+   * Change a keyword's text, weight or polarity
+   */
+  updateKeyword: adminProcedure
+    .input(
+      z
+        .object({ id: z.string().uuid(), ...keywordFields })
+        .partial()
+        .required({ id: true })
+    )
+    .mutation(async ({ input }) => {
+      const { id, ...values } = input;
+      const updated = await applyChange(() => updateKeyword(id, values));
+
+      if (!updated) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Keyword not found",
+        });
+      }
+
+      return updated;
+    }),
+
+  /**
+   * Delete a keyword
+   */
+  deleteKeyword: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input }) => {
+      const deleted = await deleteKeyword(input.id);
+
+      if (!deleted) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Keyword not found",
+        });
+      }
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter } from "@/server/trpc";
+import { publicProcedure } from "@/server/procedures";
+import { getRecentStories, getStoryTimeline } from "@/lib/services/stories";
+
+export const storyRouter = createTRPCRouter({
+  /**
+   * A story's articles in publication order, with per-day counts
+   */
+  timeline: publicProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ input }) => {
+      const timeline = await getStoryTimeline(input.id);
+
+      if (!timeline) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Story not found" });
+      }
+
+      return timeline;
+    }),
+
+  /**
+   * Stories with coverage in the last N days, most recently active first
+   */
+  recent: publicProcedure
+    .input(
+      z
+        .object({
+          days: z.number().min(1).max(30).default(7),
+          limit: z.number().min(1).max(50).default(20),
+        })
+        .optional()
+    )
+    .query(async ({ input }) => {
+      const recent = await getRecentStories(input ?? {});
+      return recent;
+    }),
+});
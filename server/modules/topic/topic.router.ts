@@ -1,8 +1,10 @@
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
 import { createTRPCRouter } from "@/server/trpc";
-import { publicProcedure } from "@/server/procedures";
-import { topics } from "@/db/schema";
-import { eq, asc } from "drizzle-orm";
+import { adminProcedure, publicProcedure } from "@/server/procedures";
+import { articles, topics } from "@/db/schema";
+import { eq, asc, desc } from "drizzle-orm";
+import { labeledWith } from "@/lib/services/labels";
 
 export const topicRouter = createTRPCRouter({
   /**
@@ -30,7 +32,8 @@ export const topicRouter = createTRPCRouter({
     }),
 
   /**
-   * Get a topic with its articles
+   * Get a topic with its articles - every article labeled with it, not only
+   * those it's the primary topic of
    */
   getWithArticles: publicProcedure
     .input(
@@ -42,14 +45,52 @@ export const topicRouter = createTRPCRouter({
     .query(async ({ ctx, input }) => {
       const topic = await ctx.db.query.topics.findFirst({
         where: eq(topics.slug, input.slug),
-        with: {
-          articles: {
-            limit: input.limit,
-            orderBy: (articles, { desc }) => [desc(articles.publishedAt)],
-          },
-        },
       });
 
-      return topic ?? null;
+      if (!topic) return null;
+
+      const items = await ctx.db.query.articles.findMany({
+        where: labeledWith(topic.id),
+        orderBy: [desc(articles.publishedAt)],
+        limit: input.limit,
+      });
+
+      return { ...topic, articles: items };
+    }),
+
+  /**
+   * Configure a topic's own fetch query
+   * fetchQuery null falls back to the default query for the topic
+   */
+  updateFetchSettings: adminProcedure
+    .input(
+      z
+        .object({
+          id: z.string().uuid(),
+          fetchEnabled: z.boolean().optional(),
+          fetchQuery: z.string().trim().min(1).max(500).nullable().optional(),
+          fetchLang: z.string().min(2).max(10).nullable().optional(),
+          fetchCountry: z.string().min(2).max(10).nullable().optional(),
+          fetchBudget: z.number().min(1).max(100).optional(),
+        })
+        .refine((v) => Object.keys(v).length > 1, "Nothing to update")
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...settings } = input;
+
+      const [topic] = await ctx.db
+        .update(topics)
+        .set(settings)
+        .where(eq(topics.id, id))
+        .returning();
+
+      if (!topic) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Topic not found",
+        });
+      }
+
+      return topic;
     }),
 });
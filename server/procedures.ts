@@ -1,5 +1,9 @@
 import { timingMiddleware } from "./middleware/timing";
-import { authMiddleware, optionalAuthMiddleware } from "./middleware/auth";
+import {
+  adminMiddleware,
+  authMiddleware,
+  optionalAuthMiddleware,
+} from "./middleware/auth";
 
 /**
  * Public procedure - no authentication required
@@ -18,3 +22,9 @@ export const optionalUserProcedure = optionalAuthMiddleware;
  * Will throw UNAUTHORIZED error if not authenticated
  */
 export const userProcedure = authMiddleware;
+
+/**
+ * Admin procedure - authentication required, email must be in ADMIN_EMAILS
+ * Will throw FORBIDDEN error for other users
+ */
+export const adminProcedure = adminMiddleware;
@@ -4,6 +4,13 @@ import { articleRouter } from "./modules/article/article.router";
 import { topicRouter } from "./modules/topic/topic.router";
 import { fetcherRouter } from "./modules/fetcher/fetcher.router";
 import { digestRouter } from "./modules/digest/digest.router";
+import { feedRouter } from "./modules/feed/feed.router";
+import { jobRouter } from "./modules/job/job.router";
+import { profileRouter } from "./modules/profile/profile.router";
+import { normalizationRouter } from "./modules/normalization/normalization.router";
+import { storyRouter } from "./modules/story/story.router";
+import { taggingRulesRouter } from "./modules/rules/rules.router";
+import { reviewRouter } from "./modules/review/review.router";
 
 /**
  * Main application router
@@ -14,6 +21,13 @@ export const appRouter = createTRPCRouter({
   topic: topicRouter,
   fetcher: fetcherRouter,
   digest: digestRouter,
+  feed: feedRouter,
+  job: jobRouter,
+  profile: profileRouter,
+  normalization: normalizationRouter,
+  story: storyRouter,
+  taggingRules: taggingRulesRouter,
+  review: reviewRouter,
 });
 
 // Export type definition of API